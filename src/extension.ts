@@ -8,22 +8,55 @@
 import "reflect-metadata";
 import * as vscode from "vscode";
 
+import { ActivePromptStore } from "./services/activePromptStore";
+import { ProjectLockfile } from "./services/projectLockfile";
+import { PromptDiagnostics } from "./services/promptDiagnostics";
+import { PromptEditorSupport } from "./services/promptEditorSupport";
 import { PromptManager } from "./services/promptManager";
+import { PromptMigrator } from "./services/promptMigrator";
+import { TemplateVariableStore } from "./services/templateVariableStore";
+import { WorkspaceFolderTracker } from "./services/workspaceFolderTracker";
+import { PromptBundles } from "./ui/promptBundles";
+import { PromptEditorProvider } from "./ui/promptEditorProvider";
+import { PromptTreeNode, PromptTreeView } from "./ui/promptTreeView";
 import { StatusBarItems } from "./ui/statusBarItems";
+import { TagManager } from "./ui/tagManager";
 import Container from "typedi";
 import { DocumentWatcher } from "./services/documentWatcher";
 
 export function activate(context: vscode.ExtensionContext) {
+  const folderTracker = Container.get(WorkspaceFolderTracker);
+  const activePromptStore = Container.get(ActivePromptStore);
+  const templateVariableStore = Container.get(TemplateVariableStore);
   const promptManager = Container.get(PromptManager);
   const documentWatcher = Container.get(DocumentWatcher);
   const statusBarItems = Container.get(StatusBarItems);
+  const projectLockfile = Container.get(ProjectLockfile);
+  const promptDiagnostics = Container.get(PromptDiagnostics);
+  const promptEditorSupport = Container.get(PromptEditorSupport);
+  const promptEditorProvider = Container.get(PromptEditorProvider);
+  const promptTreeView = Container.get(PromptTreeView);
+  const tagManager = Container.get(TagManager);
+  const promptMigrator = Container.get(PromptMigrator);
+  const promptBundles = Container.get(PromptBundles);
 
   // Initialize prompt manager
+  activePromptStore.initialize(context);
+  templateVariableStore.initialize(context);
   promptManager.initialize(context);
   documentWatcher.initialize(context);
+  projectLockfile.initialize(context);
 
   // Start watching for document saves
   documentWatcher.start();
+  promptDiagnostics.start();
+  promptEditorSupport.start();
+  promptEditorProvider.start();
+  promptTreeView.start();
+  promptMigrator.start();
+
+  // Check the project rules against the workspace lockfile
+  projectLockfile.verify();
 
   context.subscriptions.push(
     vscode.commands.registerCommand("oh-my-prompt.manageGlobalPrompts", () => {
@@ -37,10 +70,101 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.configureSyncTargets", () => {
+      statusBarItems.configureSyncTargets();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.showResolvedPrompt", () => {
+      statusBarItems.showResolvedPrompt();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.pinProjectPrompt", () => {
+      projectLockfile.pin();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "oh-my-prompt.regenerateFromLockfile",
+      () => {
+        projectLockfile.regenerate();
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.formatPromptFile", () => {
+      promptEditorSupport.formatActiveFile();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.manageTags", () => {
+      tagManager.manageTags();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.migratePrompts", () => {
+      promptMigrator.migrateAll();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.convertPromptFormat", () => {
+      promptTreeView.convertPromptFormat();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.exportPrompts", () => {
+      promptBundles.exportPrompts();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("oh-my-prompt.importBundle", () => {
+      promptBundles.importBundle();
+    }),
+  );
+
+  // Actions of the prompt tree view
+  const treeCommands: Record<string, (node: PromptTreeNode) => unknown> = {
+    refresh: () => promptTreeView.refresh(),
+    create: (node) => promptTreeView.create(node),
+    activate: (node) => promptTreeView.activate(node),
+    edit: (node) => promptTreeView.edit(node),
+    editToml: (node) => promptTreeView.editToml(node),
+    duplicate: (node) => promptTreeView.duplicate(node),
+    rename: (node) => promptTreeView.rename(node),
+    delete: (node) => promptTreeView.delete(node),
+    moveToGlobal: (node) => promptTreeView.changeType(node, "global"),
+    moveToProject: (node) => promptTreeView.changeType(node, "project"),
+    convertToMarkdown: (node) => promptTreeView.convert(node, "markdown"),
+    convertToToml: (node) => promptTreeView.convert(node, "toml"),
+  };
+  for (const [name, handler] of Object.entries(treeCommands)) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`oh-my-prompt.tree.${name}`, handler),
+    );
+  }
+
   // Add items to subscriptions for cleanup
   context.subscriptions.push(statusBarItems);
   context.subscriptions.push(documentWatcher);
   context.subscriptions.push(promptManager);
+  context.subscriptions.push(activePromptStore);
+  context.subscriptions.push(folderTracker);
+  context.subscriptions.push(promptDiagnostics);
+  context.subscriptions.push(promptEditorSupport);
+  context.subscriptions.push(promptEditorProvider);
+  context.subscriptions.push(promptTreeView);
+  context.subscriptions.push(promptMigrator);
 }
 
 export function deactivate() {}
@@ -0,0 +1,258 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { Prompt, PromptType } from "../types/prompt";
+import { hashContent } from "../utils/hash";
+import { parseManagedBlocks } from "../utils/managedBlocks";
+import { VscodeLogger } from "../vscode-logger";
+import { WorkspaceFolderTracker } from "./workspaceFolderTracker";
+
+const STATE_KEY = "oh-my-prompt.activePrompt";
+const RECENT_KEY = "oh-my-prompt.recentPrompts";
+/** Prompts whose last activation is remembered */
+const RECENT_LIMIT = 200;
+
+/**
+ * A prompt written to the rules as a managed block
+ */
+export interface ActivePromptBlock {
+  promptId: string;
+  name: string;
+  hash: string;
+  content: string;
+}
+
+/**
+ * The prompt a scope's rules were last activated from
+ */
+export interface ActivePromptState {
+  promptId: string;
+  name: string;
+  /** Hash of the content written to the rules */
+  hash: string;
+  /** Content written to the rules, used as the base when they drift */
+  content: string;
+  activatedAt: string;
+  /** Prompts stacked into the rules as managed blocks, in order */
+  blocks?: ActivePromptBlock[];
+}
+
+/**
+ * Persists the active prompt per scope: global in `globalState`, project in
+ * `workspaceState` for each workspace folder
+ */
+@Service()
+export class ActivePromptStore {
+  private extensionContext?: vscode.ExtensionContext;
+  private changeEmitter = new vscode.EventEmitter<PromptType>();
+
+  constructor(
+    private readonly logger: VscodeLogger,
+    private readonly folderTracker: WorkspaceFolderTracker,
+  ) {}
+
+  /**
+   * Initialize the store with extension context
+   */
+  initialize(context: vscode.ExtensionContext) {
+    this.extensionContext = context;
+  }
+
+  /**
+   * Fired with the scope whose active prompt changed
+   */
+  get onDidChange(): vscode.Event<PromptType> {
+    return this.changeEmitter.event;
+  }
+
+  /**
+   * @param workspaceRoot Folder of project prompts, defaults to the active one
+   */
+  get(type: PromptType, workspaceRoot?: string): ActivePromptState | undefined {
+    const memento = this.getMemento(type);
+    const state = memento?.get<ActivePromptState>(
+      this.getStateKey(type, workspaceRoot),
+    );
+    if (state || type === "global" || this.folderTracker.isMultiRoot()) {
+      return state;
+    }
+    // Single-folder workspaces used to keep the state under the plain key
+    return memento?.get<ActivePromptState>(STATE_KEY);
+  }
+
+  /**
+   * Record the prompt whose content has just been written to the rules
+   */
+  async set(
+    type: PromptType,
+    prompt: Prompt,
+    content = prompt.content,
+    workspaceRoot?: string,
+  ) {
+    const memento = this.getMemento(type);
+    if (!memento) {
+      this.logger.error("Extension context not initialized");
+      return;
+    }
+
+    const state: ActivePromptState = {
+      promptId: prompt.meta.id,
+      name: prompt.meta.name,
+      hash: hashContent(content),
+      content,
+      activatedAt: new Date().toISOString(),
+    };
+    await memento.update(this.getStateKey(type, workspaceRoot), state);
+    await this.recordActivation(type, [prompt]);
+    this.changeEmitter.fire(type);
+  }
+
+  /**
+   * Record the prompts just written to the rules as managed blocks
+   */
+  async setBlocks(type: PromptType, prompts: Prompt[], workspaceRoot?: string) {
+    const memento = this.getMemento(type);
+    if (!memento || prompts.length === 0) {
+      return;
+    }
+
+    const blocks = prompts.map((prompt) => ({
+      promptId: prompt.meta.id,
+      name: prompt.meta.name,
+      hash: hashContent(prompt.content),
+      content: prompt.content,
+    }));
+    const state: ActivePromptState = {
+      ...blocks[0],
+      activatedAt: new Date().toISOString(),
+      blocks,
+    };
+    await memento.update(this.getStateKey(type, workspaceRoot), state);
+    await this.recordActivation(type, prompts);
+    this.changeEmitter.fire(type);
+  }
+
+  async clear(type: PromptType, workspaceRoot?: string) {
+    const memento = this.getMemento(type);
+    await memento?.update(this.getStateKey(type, workspaceRoot), undefined);
+    await memento?.update(STATE_KEY, undefined);
+    this.changeEmitter.fire(type);
+  }
+
+  /**
+   * Whether the rules content no longer matches what was activated
+   */
+  isDrifted(
+    type: PromptType,
+    rulesContent: string,
+    workspaceRoot?: string,
+  ): boolean {
+    const state = this.get(type, workspaceRoot);
+    if (!state) {
+      return false;
+    }
+    if (!state.blocks) {
+      return hashContent(rulesContent) !== state.hash;
+    }
+
+    // Only the managed blocks count, hand-written content may change freely
+    const parsed = parseManagedBlocks(rulesContent);
+    return (
+      parsed.length !== state.blocks.length ||
+      this.getDriftedBlocks(type, rulesContent, workspaceRoot).length > 0
+    );
+  }
+
+  /**
+   * Managed blocks whose content no longer matches what was activated
+   */
+  getDriftedBlocks(
+    type: PromptType,
+    rulesContent: string,
+    workspaceRoot?: string,
+  ): Array<{ block: ActivePromptBlock; content: string }> {
+    const blocks = this.get(type, workspaceRoot)?.blocks ?? [];
+    const parsed = new Map(
+      parseManagedBlocks(rulesContent).map(({ id, content }) => [id, content]),
+    );
+    return blocks.flatMap((block) => {
+      const content = parsed.get(block.promptId);
+      return content !== undefined && hashContent(content) !== block.hash
+        ? [{ block, content }]
+        : [];
+    });
+  }
+
+  /**
+   * Whether a prompt is active in a scope, on its own or as a managed block
+   */
+  isActive(
+    type: PromptType,
+    promptId: string,
+    workspaceRoot?: string,
+  ): boolean {
+    const state = this.get(type, workspaceRoot);
+    return (
+      state?.promptId === promptId ||
+      (state?.blocks?.some((block) => block.promptId === promptId) ?? false)
+    );
+  }
+
+  /**
+   * When a prompt was last activated, in any workspace
+   * @returns milliseconds since the epoch, undefined if never
+   */
+  getLastActivated(type: PromptType, promptId: string): number | undefined {
+    return this.extensionContext?.globalState.get<Record<string, number>>(
+      RECENT_KEY,
+    )?.[`${type}:${promptId}`];
+  }
+
+  private async recordActivation(type: PromptType, prompts: Prompt[]) {
+    const globalState = this.extensionContext?.globalState;
+    if (!globalState) {
+      return;
+    }
+    const now = Date.now();
+    const recent = {
+      ...globalState.get<Record<string, number>>(RECENT_KEY, {}),
+      ...Object.fromEntries(
+        prompts.map((prompt) => [`${type}:${prompt.meta.id}`, now]),
+      ),
+    };
+    await globalState.update(
+      RECENT_KEY,
+      Object.fromEntries(
+        Object.entries(recent)
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, RECENT_LIMIT),
+      ),
+    );
+  }
+
+  private getStateKey(type: PromptType, workspaceRoot?: string): string {
+    const root =
+      type === "project"
+        ? (workspaceRoot ?? this.folderTracker.getActiveRoot())
+        : undefined;
+    return root
+      ? `${STATE_KEY}:${vscode.Uri.file(root).toString()}`
+      : STATE_KEY;
+  }
+
+  private getMemento(type: PromptType): vscode.Memento | undefined {
+    return type === "global"
+      ? this.extensionContext?.globalState
+      : this.extensionContext?.workspaceState;
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
@@ -5,49 +5,111 @@
  * This source code is licensed under the MIT license found in the
  * LICENSE file in the root directory of this source tree.
  */
-import * as TOML from "@iarna/toml";
 import { formatError } from "@oh-my-commit/shared";
-import * as fs from "fs";
 import * as path from "path";
 import { Service } from "typedi";
 import * as vscode from "vscode";
-import { PromptType, PromptSchema } from "../types/prompt";
+import { Prompt, PromptType, PromptSchema } from "../types/prompt";
+import { ResolvedRulesTarget, RulesTarget } from "../types/target";
+import { openThreeWayMerge } from "../ui/threeWayMerge";
+import { CONFIG_SECTION } from "../utils/config";
+import { hashContent } from "../utils/hash";
+import { isComposedPrompt } from "../utils/promptComposition";
+import {
+  convertPromptText,
+  getPromptFormat,
+  isPromptFile,
+  parsePromptText,
+} from "../utils/promptFormat";
+import { migratePromptData, needsMigration } from "../utils/promptMigration";
+import { findTemplateVariables } from "../utils/templateVariables";
+import { ActivePromptStore } from "./activePromptStore";
 import { PromptManager } from "./promptManager";
 import { EnvironmentDetector } from "./environmentDetector";
+import { PromptHistory } from "./promptHistory";
+import { WorkspaceFolderTracker } from "./workspaceFolderTracker";
 import { VscodeLogger } from "../vscode-logger";
 
+/**
+ * New content of a scope's rules
+ */
+export interface RulesChangeEvent {
+  type: PromptType;
+  content: string;
+  /** Workspace folder of project rules */
+  workspaceRoot?: string;
+}
+
 @Service()
 export class DocumentWatcher {
   private disposables: vscode.Disposable[] = [];
   private syncOperations = new Set<string>();
-  private fileChangeEmitter = new vscode.EventEmitter<{
-    type: PromptType;
-    content: string;
-  }>();
+  private fileChangeEmitter = new vscode.EventEmitter<RulesChangeEvent>();
   private fileWatchers: Map<string, vscode.FileSystemWatcher> = new Map();
+  // Keyed by scope, and by workspace folder for project rules
+  private rulesWatchers = new Map<string, vscode.Disposable[]>();
+  private lastRulesContent = new Map<string, string>();
   private extensionContext?: vscode.ExtensionContext;
 
   constructor(
     private readonly promptManager: PromptManager,
     private readonly environmentDetector: EnvironmentDetector,
     private readonly logger: VscodeLogger,
+    private readonly activePromptStore: ActivePromptStore,
+    private readonly folderTracker: WorkspaceFolderTracker,
+    private readonly promptHistory: PromptHistory,
   ) {
+    // 保存前记录尚无历史的 prompt 文件
+    vscode.workspace.onWillSaveTextDocument(
+      (event) => {
+        const filePath = event.document.uri.fsPath;
+        if (
+          isPromptFile(filePath) &&
+          this.promptManager.getLibraryRoot(filePath)
+        ) {
+          event.waitUntil(
+            this.promptHistory.recordBaseline(
+              filePath,
+              this.promptManager.getLibraryPromptType(filePath),
+            ),
+          );
+        }
+      },
+      null,
+      this.disposables,
+    );
+
     // 监听文件保存事件
     vscode.workspace.onDidSaveTextDocument(
       async (document) => {
         try {
-          if (document.uri.fsPath.endsWith(".toml")) {
-            const content = document.getText();
+          const format = getPromptFormat(document.uri.fsPath);
+          if (
+            format &&
+            this.promptManager.getLibraryRoot(document.uri.fsPath)
+          ) {
+            let prompt: Prompt;
             try {
-              // 验证文件内容
-              PromptSchema.parse(TOML.parse(content));
-            } catch (error) {
-              // 显示错误通知
-              vscode.window.showErrorMessage(
-                `Invalid prompt file: ${error instanceof Error ? error.message : "Unknown error"}`,
-                { modal: false },
+              const data = parsePromptText(document.getText(), format);
+              prompt = PromptSchema.parse(
+                needsMigration(data) ? migratePromptData(data).data : data,
               );
+            } catch (error) {
+              // PromptDiagnostics reports invalid TOML files while editing
+              if (format === "markdown") {
+                vscode.window.showErrorMessage(
+                  `Invalid prompt file ${path.basename(document.uri.fsPath)}: ${formatError(error)}`,
+                );
+              }
+              return;
             }
+            await this.promptHistory.record(
+              prompt.meta.type,
+              prompt.meta.id,
+              convertPromptText(document.getText(), format, "toml"),
+              "save",
+            );
+            await this.offerDependentResync(prompt);
           }
         } catch (error) {
           this.logger.error("Error validating prompt file:", error);
@@ -61,7 +123,7 @@ export class DocumentWatcher {
   /**
    * Get the event emitter for file changes
    */
-  get onDidChangeRules(): vscode.Event<{ type: PromptType; content: string }> {
+  get onDidChangeRules(): vscode.Event<RulesChangeEvent> {
     return this.fileChangeEmitter.event;
   }
 
@@ -81,18 +143,20 @@ export class DocumentWatcher {
       await operation();
 
       // 手动触发文件变更事件
-      const type = await this.getRulesType(filePath);
-      if (type) {
+      const rules = await this.getRulesType(filePath);
+      if (rules) {
+        const { type, target, workspaceRoot } = rules;
         try {
-          const content = await fs.promises.readFile(filePath, "utf-8");
-          this.fileChangeEmitter.fire({ type, content });
+          const content = await target.read(filePath);
+          this.lastRulesContent.set(filePath, content);
+          this.fileChangeEmitter.fire({ type, content, workspaceRoot });
           this.logger.info(`Manually fired change event for: ${filePath}`);
         } catch (error) {
           this.logger.error(
             `Failed to read file after sync: ${filePath}`,
             error,
           );
-          this.fileChangeEmitter.fire({ type, content: "" });
+          this.fileChangeEmitter.fire({ type, content: "", workspaceRoot });
         }
       }
     } finally {
@@ -114,42 +178,85 @@ export class DocumentWatcher {
    */
   async start() {
     // 设置全局规则文件监听器
-    const globalRulesPath =
-      await this.environmentDetector.getRulesPath("global");
-    this.watchRulesFile(globalRulesPath, "global");
-
-    // 设置项目规则文件监听器
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (workspaceRoot) {
-      const projectRulesPath = await this.environmentDetector.getRulesPath(
-        "project",
-        workspaceRoot,
-      );
-      this.watchRulesFile(projectRulesPath, "project");
+    await this.watchTargets("global");
+
+    // 设置项目规则文件监听器, 每个工作区文件夹一个
+    for (const folder of this.folderTracker.getFolders()) {
+      await this.watchTargets("project", folder.uri.fsPath);
     }
 
     // 监听工作区变化
     this.disposables.push(
-      vscode.workspace.onDidChangeWorkspaceFolders(async () => {
-        const newWorkspaceRoot =
-          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (newWorkspaceRoot) {
-          const projectRulesPath = await this.environmentDetector.getRulesPath(
-            "project",
-            newWorkspaceRoot,
-          );
-          this.watchRulesFile(projectRulesPath, "project");
+      vscode.workspace.onDidChangeWorkspaceFolders(
+        async ({ added, removed }) => {
+          for (const folder of removed) {
+            const key = this.getWatchKey("project", folder.uri.fsPath);
+            this.rulesWatchers.get(key)?.forEach((d) => d.dispose());
+            this.rulesWatchers.delete(key);
+          }
+          for (const folder of added) {
+            await this.watchTargets("project", folder.uri.fsPath);
+          }
+          await this.watchIdeRules();
+        },
+      ),
+    );
+
+    // 同步目标配置变化时重新监听
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(async (event) => {
+        if (!event.affectsConfiguration(`${CONFIG_SECTION}.syncTargets`)) {
+          return;
         }
+        for (const folder of this.folderTracker.getFolders()) {
+          await this.watchTargets("project", folder.uri.fsPath);
+        }
+        await this.watchIdeRules();
       }),
     );
   }
 
+  /**
+   * Watch the rules of every applicable target for a scope
+   */
+  private async watchTargets(type: PromptType, workspaceRoot?: string) {
+    try {
+      const targets = await this.environmentDetector.getTargets(
+        type,
+        workspaceRoot,
+      );
+      const key = this.getWatchKey(type, workspaceRoot);
+      this.rulesWatchers.get(key)?.forEach((d) => d.dispose());
+      this.rulesWatchers.set(
+        key,
+        targets.flatMap(({ target, rulesPath }) =>
+          this.watchRulesFile(target, rulesPath, type, workspaceRoot),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to watch ${type} rules targets:`, error);
+    }
+  }
+
+  private getWatchKey(type: PromptType, workspaceRoot?: string): string {
+    return type === "project" ? `project:${workspaceRoot}` : type;
+  }
+
   /**
    * Watch a rules file for changes
    */
-  private watchRulesFile(rulesPath: string, type: PromptType) {
+  private watchRulesFile(
+    target: RulesTarget,
+    rulesPath: string,
+    type: PromptType,
+    workspaceRoot?: string,
+  ): vscode.Disposable[] {
+    const pattern = target.getWatchPattern(rulesPath);
+    if (!pattern) {
+      return [];
+    }
     const watcher = vscode.workspace.createFileSystemWatcher(
-      rulesPath,
+      pattern,
       false,
       false,
       false,
@@ -166,45 +273,55 @@ export class DocumentWatcher {
       this.logger.info(`Detected change in rules file: ${rulesPath}`);
 
       try {
-        const content = await fs.promises.readFile(rulesPath, "utf-8");
-        this.fileChangeEmitter.fire({ type, content });
+        const content = await target.read(rulesPath);
+        this.fileChangeEmitter.fire({ type, content, workspaceRoot });
       } catch (error) {
         this.logger.error(`Failed to read rules file: ${rulesPath}`, error);
-        this.fileChangeEmitter.fire({ type, content: "" });
+        this.fileChangeEmitter.fire({ type, content: "", workspaceRoot });
       }
     };
 
-    this.disposables.push(
+    return [
       watcher,
       watcher.onDidChange(handleFileChange),
       watcher.onDidCreate(handleFileChange),
       watcher.onDidDelete(() => {
-        this.fileChangeEmitter.fire({ type, content: "" });
+        this.fileChangeEmitter.fire({ type, content: "", workspaceRoot });
       }),
-    );
+    ];
   }
 
   /**
-   * Get rules type from file path
+   * Get rules type and owning target from file path
    */
   private async getRulesType(
     filePath: string,
-  ): Promise<PromptType | undefined> {
+  ): Promise<
+    | { type: PromptType; target: RulesTarget; workspaceRoot?: string }
+    | undefined
+  > {
     try {
-      const globalRulesPath =
-        await this.environmentDetector.getRulesPath("global");
-      if (filePath === globalRulesPath) {
-        return "global";
+      const globalTarget = await this.environmentDetector.findTarget(
+        "global",
+        filePath,
+      );
+      if (globalTarget) {
+        return { type: "global", target: globalTarget.target };
       }
 
-      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (workspaceRoot) {
-        const projectRulesPath = await this.environmentDetector.getRulesPath(
+      for (const folder of this.folderTracker.getFolders()) {
+        const workspaceRoot = folder.uri.fsPath;
+        const projectTarget = await this.environmentDetector.findTarget(
           "project",
+          filePath,
           workspaceRoot,
         );
-        if (filePath === projectRulesPath) {
-          return "project";
+        if (projectTarget) {
+          return {
+            type: "project",
+            target: projectTarget.target,
+            workspaceRoot,
+          };
         }
       }
     } catch (error) {
@@ -235,74 +352,22 @@ export class DocumentWatcher {
       this.fileWatchers.forEach((watcher) => watcher.dispose());
       this.fileWatchers.clear();
 
-      const types: PromptType[] = ["global", "project"];
-      for (const type of types) {
+      const scopes: Array<{ type: PromptType; workspaceRoot?: string }> = [
+        { type: "global" },
+        ...this.folderTracker.getFolders().map((folder) => ({
+          type: "project" as const,
+          workspaceRoot: folder.uri.fsPath,
+        })),
+      ];
+      for (const { type, workspaceRoot } of scopes) {
         try {
-          const workspaceRoot =
-            type === "project"
-              ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-              : undefined;
-
-          const rulesPath = await this.environmentDetector.getRulesPath(
+          const targets = await this.environmentDetector.getTargets(
             type,
             workspaceRoot,
           );
-
-          // Create watcher for the rules file
-          const watcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(
-              path.dirname(rulesPath),
-              path.basename(rulesPath),
-            ),
-            false, // Only trigger watcher for external changes
-          );
-
-          watcher.onDidChange(async () => {
-            try {
-              const ide = await this.environmentDetector.detect();
-              const content = await fs.promises.readFile(rulesPath, "utf-8");
-              const prompts = await this.promptManager.loadPrompts(type);
-              const currentPrompt = prompts.find(
-                (p) => p.prompt?.content === content,
-              );
-
-              if (!currentPrompt) {
-                const answer = await vscode.window.showInformationMessage(
-                  `${ide} ${type} rules have been modified. Would you like to sync the changes?`,
-                  {
-                    modal: false,
-                    detail:
-                      "The changes can be synced as a new prompt in Oh My Prompt",
-                  },
-                  "Sync Now",
-                );
-
-                if (answer === "Sync Now") {
-                  const prompt =
-                    await this.promptManager.importFromIdeRules(type);
-                  if (prompt) {
-                    const tomlPath = path.join(
-                      this.promptManager.getPromptDir(),
-                      type,
-                      `${prompt.meta.id}.toml`,
-                    );
-                    const doc =
-                      await vscode.workspace.openTextDocument(tomlPath);
-                    await vscode.window.showTextDocument(doc);
-                  }
-                }
-              }
-            } catch (error) {
-              this.logger.error(`Failed to handle rules file change:`, error);
-            }
-          });
-
-          watcher.onDidCreate(async () => {
-            this.logger.info(`Rules file created: ${rulesPath}`);
-          });
-
-          this.fileWatchers.set(rulesPath, watcher);
-          this.logger.info(`Watching ${type} rules at: ${rulesPath}`);
+          for (const { target, rulesPath } of targets) {
+            this.watchIdeRulesFile(target, rulesPath, type, workspaceRoot);
+          }
         } catch (error) {
           this.logger.error(
             `Failed to setup watcher for ${type} rules:`,
@@ -315,12 +380,323 @@ export class DocumentWatcher {
     }
   }
 
+  /**
+   * Offer to import external changes of a rules file as a new prompt
+   */
+  private watchIdeRulesFile(
+    target: RulesTarget,
+    rulesPath: string,
+    type: PromptType,
+    workspaceRoot?: string,
+  ) {
+    const pattern = target.getWatchPattern(rulesPath);
+    if (!pattern) {
+      return;
+    }
+
+    // Create watcher for the rules file
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      pattern,
+      false, // Only trigger watcher for external changes
+    );
+
+    watcher.onDidChange(async () => {
+      if (this.isSyncing(rulesPath)) {
+        return;
+      }
+
+      try {
+        const content = await target.read(rulesPath);
+        // Storage files such as Cursor's settings change for unrelated
+        // reasons, so only react when the rules themselves changed
+        if (this.lastRulesContent.get(rulesPath) === content) {
+          return;
+        }
+        this.lastRulesContent.set(rulesPath, content);
+
+        await this.handleExternalRulesChange(
+          { target, rulesPath },
+          type,
+          content,
+          workspaceRoot,
+        );
+      } catch (error) {
+        this.logger.error(`Failed to handle rules file change:`, error);
+        vscode.window.showErrorMessage(
+          `Failed to handle ${type} rules change: ${formatError(error)}`,
+        );
+      }
+    });
+
+    watcher.onDidCreate(async () => {
+      this.logger.info(`Rules file created: ${rulesPath}`);
+    });
+
+    target
+      .read(rulesPath)
+      .then((content) => this.lastRulesContent.set(rulesPath, content))
+      .catch((error) =>
+        this.logger.error(`Failed to read rules file: ${rulesPath}`, error),
+      );
+
+    this.fileWatchers.set(rulesPath, watcher);
+    this.logger.info(`Watching ${type} ${target.label} rules at: ${rulesPath}`);
+  }
+
+  /**
+   * Reconcile an external edit of a rules file with the prompts it was
+   * activated from
+   */
+  private async handleExternalRulesChange(
+    source: ResolvedRulesTarget,
+    type: PromptType,
+    content: string,
+    workspaceRoot?: string,
+  ) {
+    const active = this.activePromptStore.get(type, workspaceRoot);
+    if (active?.blocks) {
+      await this.handleManagedBlocksChange(
+        source,
+        type,
+        content,
+        workspaceRoot,
+      );
+      return;
+    }
+    if (active && hashContent(content) === active.hash) {
+      return;
+    }
+
+    const prompts = await this.promptManager.loadPrompts(type, workspaceRoot);
+    if (prompts.some((p) => p.prompt?.content === content)) {
+      return;
+    }
+
+    const linked = active
+      ? prompts.find((p) => p.prompt?.meta.id === active.promptId)?.prompt
+      : undefined;
+    if (!active || !linked) {
+      const answer = await vscode.window.showInformationMessage(
+        `${source.target.label} ${type} rules have been modified. Would you like to sync the changes?`,
+        {
+          modal: false,
+          detail: "The changes can be synced as a new prompt in Oh My Prompt",
+        },
+        "Sync Now",
+      );
+      if (answer === "Sync Now") {
+        await this.saveRulesAsNewPrompt(source, type, content, workspaceRoot);
+      }
+      return;
+    }
+
+    await this.reconcilePrompt(
+      source,
+      type,
+      linked,
+      active.content,
+      content,
+      workspaceRoot,
+    );
+  }
+
+  /**
+   * Reconcile edited managed blocks with their prompts, ignoring changes to
+   * the hand-written part of the rules
+   */
+  private async handleManagedBlocksChange(
+    source: ResolvedRulesTarget,
+    type: PromptType,
+    content: string,
+    workspaceRoot?: string,
+  ) {
+    const drifted = this.activePromptStore.getDriftedBlocks(
+      type,
+      content,
+      workspaceRoot,
+    );
+    if (drifted.length === 0) {
+      return;
+    }
+
+    const prompts = await this.promptManager.loadPrompts(type, workspaceRoot);
+    for (const { block, content: blockContent } of drifted) {
+      const linked = prompts.find(
+        (p) => p.prompt?.meta.id === block.promptId,
+      )?.prompt;
+      if (linked) {
+        await this.reconcilePrompt(
+          source,
+          type,
+          linked,
+          block.content,
+          blockContent,
+          workspaceRoot,
+        );
+      }
+    }
+  }
+
+  /**
+   * Ask how to reconcile rules content that drifted from a linked prompt
+   * @param base Content the prompt was activated with
+   * @param content Current content in the rules
+   */
+  private async reconcilePrompt(
+    source: ResolvedRulesTarget,
+    type: PromptType,
+    linked: Prompt,
+    base: string,
+    content: string,
+    workspaceRoot?: string,
+  ) {
+    const templated = findTemplateVariables(linked.content).length > 0;
+    if (isComposedPrompt(linked) || templated) {
+      // The rules hold the resolved and rendered content, writing it back
+      // would flatten the composition and replace the placeholders
+      const answer = await vscode.window.showInformationMessage(
+        `${source.target.label} ${type} rules have been modified, but prompt "${linked.meta.name}" ${templated ? "has {{placeholders}} filled in when synced" : "is composed from other prompts"}. Keep the changes as a new prompt instead?`,
+        "Save as New",
+        "Discard",
+      );
+      if (answer === "Save as New") {
+        await this.saveRulesAsNewPrompt(source, type, content, workspaceRoot);
+      } else if (answer === "Discard") {
+        await this.promptManager.restoreActiveRules(
+          source,
+          type,
+          workspaceRoot,
+        );
+      }
+      return;
+    }
+
+    // Both the rules file and the library prompt changed since activation
+    const libraryChanged = linked.content !== base;
+    const answer = await vscode.window.showInformationMessage(
+      libraryChanged
+        ? `${source.target.label} ${type} rules and prompt "${linked.meta.name}" have both changed since activation. Merge the rules changes into the prompt?`
+        : `${source.target.label} ${type} rules have been modified. Update prompt "${linked.meta.name}" with the changes?`,
+      libraryChanged ? "Merge into Prompt" : "Update Prompt",
+      "Save as New",
+      "Discard",
+    );
+
+    if (answer === "Update Prompt" || answer === "Merge into Prompt") {
+      let newContent = content;
+      if (libraryChanged) {
+        const merged = await openThreeWayMerge(
+          this.extensionContext!.globalStorageUri,
+          { base, library: linked.content, rules: content },
+        );
+        if (merged === undefined) {
+          return;
+        }
+        newContent = merged;
+      }
+
+      const updated = await this.promptManager.updatePromptContent(
+        linked,
+        newContent,
+      );
+      // Bring the other targets in line with the updated prompt
+      await this.promptManager.resyncActivePrompts(type, workspaceRoot);
+      vscode.window.showInformationMessage(
+        `Prompt "${updated.meta.name}" updated to version ${updated.meta.version}`,
+      );
+    } else if (answer === "Save as New") {
+      if (this.activePromptStore.get(type, workspaceRoot)?.blocks) {
+        // Replace the edited block with the new prompt in the stack
+        const prompt = await this.promptManager.importFromIdeRules(
+          type,
+          source,
+          content,
+        );
+        if (prompt) {
+          await this.promptManager.replaceStackedPrompt(
+            type,
+            linked.meta.id,
+            prompt,
+            workspaceRoot,
+          );
+          await this.openPrompt(prompt);
+        }
+      } else {
+        await this.saveRulesAsNewPrompt(source, type, content, workspaceRoot);
+      }
+    } else if (answer === "Discard") {
+      await this.promptManager.restoreActiveRules(source, type, workspaceRoot);
+    }
+  }
+
+  /**
+   * Offer to re-sync the active prompts composed from a prompt that was just
+   * edited
+   */
+  private async offerDependentResync(prompt: Prompt) {
+    const dependents = await this.promptManager.getActiveDependents(
+      prompt.meta.id,
+    );
+    if (dependents.length === 0) {
+      return;
+    }
+
+    const scopes = dependents.map(({ type, workspaceRoot }) =>
+      workspaceRoot && this.folderTracker.isMultiRoot()
+        ? `${type} (${this.folderTracker.getFolderName(workspaceRoot)})`
+        : type,
+    );
+    const answer = await vscode.window.showInformationMessage(
+      `Active ${scopes.join(", ")} prompts include "${prompt.meta.name}". Re-sync them with the updated content?`,
+      "Re-sync",
+    );
+    if (answer !== "Re-sync") {
+      return;
+    }
+    for (const { type, workspaceRoot } of dependents) {
+      await this.promptManager.resyncActivePrompts(type, workspaceRoot);
+    }
+  }
+
+  /**
+   * Import the rules as a new prompt and link the rules file to it
+   */
+  private async saveRulesAsNewPrompt(
+    source: ResolvedRulesTarget,
+    type: PromptType,
+    content: string,
+    workspaceRoot?: string,
+  ) {
+    const prompt = await this.promptManager.importFromIdeRules(
+      type,
+      source,
+      content,
+    );
+    if (!prompt) {
+      return;
+    }
+
+    await this.activePromptStore.set(type, prompt, content, workspaceRoot);
+    await this.openPrompt(prompt);
+  }
+
+  private async openPrompt(prompt: Prompt) {
+    const doc = await vscode.workspace.openTextDocument(
+      await this.promptManager.getPromptPath(prompt),
+    );
+    await vscode.window.showTextDocument(doc);
+  }
+
   /**
    * Dispose all watchers
    */
   dispose() {
     this.fileWatchers.forEach((watcher) => watcher.dispose());
     this.fileWatchers.clear();
+    this.rulesWatchers.forEach((watchers) =>
+      watchers.forEach((d) => d.dispose()),
+    );
+    this.rulesWatchers.clear();
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
   }
@@ -9,13 +9,24 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { Service } from "typedi";
 import * as vscode from "vscode";
+import { PromptType } from "../types/prompt";
+import {
+  IDEType,
+  ResolvedRulesTarget,
+  RulesTargetContext,
+} from "../types/target";
+import { getConfig } from "../utils/config";
 import { VscodeLogger } from "../vscode-logger";
+import { RulesTargetRegistry } from "./rulesTargetRegistry";
 
-export type IDEType = "vscode" | "windsurf" | "cursor" | "unknown";
+export type { IDEType } from "../types/target";
 
 @Service()
 export class EnvironmentDetector {
-  constructor(private logger: VscodeLogger) {}
+  constructor(
+    private logger: VscodeLogger,
+    private targetRegistry: RulesTargetRegistry,
+  ) {}
 
   /**
    * Detect the current IDE environment
@@ -85,78 +96,198 @@ export class EnvironmentDetector {
   }
 
   /**
-   * Get the appropriate rules file path for the current environment
+   * Get the rules targets that apply to the current environment
    * @param type "global" | "project"
    * @param workspaceRoot Optional workspace root path for project rules
-   * @returns Promise<string>
+   * @returns Promise<ResolvedRulesTarget[]>, host IDE target first
    */
-  async getRulesPath(
-    type: "global" | "project",
+  async getTargets(
+    type: PromptType,
     workspaceRoot?: string,
-  ): Promise<string> {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-    const ide = await this.detect();
-    let rulesPath: string;
-
-    if (type === "global") {
-      switch (ide) {
-        case "windsurf":
-          rulesPath = path.join(
-            homeDir,
-            ".codeium",
-            "windsurf",
-            "memories",
-            "global_rules.md",
-          );
-          break;
-        case "cursor":
-          if (type === "global") {
-            return "cursor://settings";
-          }
-          // For project rules, proceed normally
-          if (!workspaceRoot) {
-            throw new Error("Workspace root is required for project rules");
-          }
-          rulesPath = path.join(workspaceRoot, ".cursorrules");
-          break;
-        case "vscode":
-        case "unknown":
-        default:
-          throw new Error(`The ${ide} does not support global rules`);
+  ): Promise<ResolvedRulesTarget[]> {
+    if (type === "project" && !workspaceRoot) {
+      throw new Error("Workspace root is required for project rules");
+    }
+
+    const context = await this.getTargetContext(workspaceRoot);
+
+    // Project targets configured for the workspace take precedence over detection
+    if (type === "project") {
+      const configured = this.getConfiguredTargets(context);
+      if (configured.length > 0) {
+        return configured;
+      }
+    }
+
+    const resolved: ResolvedRulesTarget[] = [];
+    for (const target of this.targetRegistry.getAll()) {
+      const rulesPath = target.getRulesPath(type, context);
+      if (!rulesPath) {
+        continue;
       }
-    } else {
-      // Project rules
-      if (!workspaceRoot) {
-        throw new Error("Workspace root is required for project rules");
+      try {
+        if (await target.detect(type, context)) {
+          resolved.push({ target, rulesPath });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to detect rules target ${target.id}:`, error);
       }
+    }
+
+    // Keep the host IDE's own target first so it becomes the primary one
+    return [
+      ...resolved.filter(({ target }) => target.ide === context.ide),
+      ...resolved.filter(({ target }) => target.ide !== context.ide),
+    ];
+  }
+
+  /**
+   * Get the project sync targets enabled in the workspace settings
+   */
+  private getConfiguredTargets(
+    context: RulesTargetContext,
+  ): ResolvedRulesTarget[] {
+    const ids = getConfig(context.workspaceRoot).get<string[]>(
+      "syncTargets",
+      [],
+    );
+    return this.resolveTargetIds(ids, context);
+  }
+
+  /**
+   * Resolve project targets by id, e.g. those pinned by a lockfile
+   */
+  async getProjectTargetsById(
+    ids: string[],
+    workspaceRoot: string,
+  ): Promise<ResolvedRulesTarget[]> {
+    return this.resolveTargetIds(
+      ids,
+      await this.getTargetContext(workspaceRoot),
+    );
+  }
 
-      switch (ide) {
-        case "windsurf":
-          rulesPath = path.join(workspaceRoot, ".windsurfrules");
-          break;
-        case "cursor":
-          rulesPath = path.join(workspaceRoot, ".cursorrules");
-          break;
-        case "vscode":
-        case "unknown":
-        default:
-          throw new Error(`The ${ide} does not support project rules`);
+  private resolveTargetIds(
+    ids: string[],
+    context: RulesTargetContext,
+  ): ResolvedRulesTarget[] {
+    const resolved: ResolvedRulesTarget[] = [];
+    for (const id of ids) {
+      const target = this.targetRegistry.get(id);
+      const rulesPath = target?.getRulesPath("project", context);
+      if (!target || !rulesPath) {
+        this.logger.warn(`Ignoring unknown project sync target: ${id}`);
+        continue;
       }
+      resolved.push({ target, rulesPath });
+    }
+    return resolved;
+  }
+
+  /**
+   * Get every registered target that supports a scope, detected or not
+   */
+  async getSupportedTargets(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<ResolvedRulesTarget[]> {
+    const context = await this.getTargetContext(workspaceRoot);
+    return this.targetRegistry.getAll().flatMap((target) => {
+      const rulesPath = target.getRulesPath(type, context);
+      return rulesPath ? [{ target, rulesPath }] : [];
+    });
+  }
+
+  /**
+   * Get the ids of the project sync targets enabled for a workspace, falling
+   * back to the detected ones
+   */
+  async getEnabledTargetIds(workspaceRoot: string): Promise<string[]> {
+    const targets = await this.getTargets("project", workspaceRoot);
+    return targets.map(({ target }) => target.id);
+  }
+
+  /**
+   * Persist the project sync targets for the workspace
+   */
+  async setEnabledTargetIds(workspaceRoot: string, ids: string[]) {
+    await getConfig(workspaceRoot).update(
+      "syncTargets",
+      ids,
+      vscode.ConfigurationTarget.Workspace,
+    );
+  }
+
+  /**
+   * Find the applicable rules target that owns a rules path
+   */
+  async findTarget(
+    type: PromptType,
+    rulesPath: string,
+    workspaceRoot?: string,
+  ): Promise<ResolvedRulesTarget | undefined> {
+    const targets = await this.getTargets(type, workspaceRoot);
+    return targets.find((t) => t.rulesPath === rulesPath);
+  }
+
+  /**
+   * Get the primary rules target for the current environment
+   * @param type "global" | "project"
+   * @param workspaceRoot Optional workspace root path for project rules
+   * @returns Promise<ResolvedRulesTarget>
+   */
+  async getPrimaryTarget(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<ResolvedRulesTarget> {
+    const [primary] = await this.getTargets(type, workspaceRoot);
+    if (!primary) {
+      const ide = await this.detect();
+      throw new Error(`The ${ide} does not support ${type} rules`);
     }
+    return primary;
+  }
+
+  /**
+   * Get the appropriate rules file path for the current environment
+   * @param type "global" | "project"
+   * @param workspaceRoot Optional workspace root path for project rules
+   * @returns Promise<string>
+   */
+  async getRulesPath(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<string> {
+    const { target, rulesPath } = await this.getPrimaryTarget(
+      type,
+      workspaceRoot,
+    );
 
-    // Create the file if it doesn't exist (except for Cursor global rules)
-    if (!(ide === "cursor" && type === "global")) {
+    // Create the file if it doesn't exist (only for watchable files)
+    if (target.getWatchPattern(rulesPath)) {
       try {
         await fs.access(rulesPath);
       } catch {
-        // Create parent directories if they don't exist
-        await fs.mkdir(path.dirname(rulesPath), { recursive: true });
-        // Create an empty file
-        await fs.writeFile(rulesPath, "", "utf-8");
+        if (target.writePrompts) {
+          // Multi-file targets keep their rules in a directory
+          await fs.mkdir(rulesPath, { recursive: true });
+        } else {
+          await target.write(rulesPath, "");
+        }
         this.logger.info(`Created rules file at ${rulesPath}`);
       }
     }
 
     return rulesPath;
   }
+
+  private async getTargetContext(
+    workspaceRoot?: string,
+  ): Promise<RulesTargetContext> {
+    return {
+      ide: await this.detect(),
+      homeDir: process.env.HOME || process.env.USERPROFILE || "",
+      workspaceRoot,
+    };
+  }
 }
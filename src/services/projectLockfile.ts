@@ -0,0 +1,396 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { LockedPrompt, PromptLock, PromptLockSchema } from "../types/lock";
+import { Prompt } from "../types/prompt";
+import { ResolvedRulesTarget } from "../types/target";
+import { hashContent } from "../utils/hash";
+import { hasManagedBlocks, parseManagedBlocks } from "../utils/managedBlocks";
+import { VscodeLogger } from "../vscode-logger";
+import { ActivePromptStore } from "./activePromptStore";
+import { EnvironmentDetector } from "./environmentDetector";
+import { PromptManager } from "./promptManager";
+import { WorkspaceFolderTracker } from "./workspaceFolderTracker";
+
+export const LOCKFILE_NAME = "oh-my-prompt.lock";
+
+const IGNORED_LOCK_KEY = "oh-my-prompt.ignoredLock";
+
+/**
+ * Pins a workspace's project prompts in `oh-my-prompt.lock`, so every
+ * teammate's rules files can be checked against and regenerated from it
+ */
+@Service()
+export class ProjectLockfile {
+  private extensionContext?: vscode.ExtensionContext;
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly environmentDetector: EnvironmentDetector,
+    private readonly activePromptStore: ActivePromptStore,
+    private readonly logger: VscodeLogger,
+    private readonly folderTracker: WorkspaceFolderTracker,
+  ) {}
+
+  /**
+   * Initialize the lockfile with extension context
+   */
+  initialize(context: vscode.ExtensionContext) {
+    this.extensionContext = context;
+  }
+
+  getLockPath(workspaceRoot: string): string {
+    return path.join(workspaceRoot, LOCKFILE_NAME);
+  }
+
+  /**
+   * Read the workspace lock, if there is one
+   */
+  async read(workspaceRoot: string): Promise<PromptLock | undefined> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.getLockPath(workspaceRoot), "utf-8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    return PromptLockSchema.parse(JSON.parse(text));
+  }
+
+  private async write(workspaceRoot: string, lock: PromptLock) {
+    await fs.writeFile(
+      this.getLockPath(workspaceRoot),
+      `${JSON.stringify(lock, null, 2)}\n`,
+      "utf-8",
+    );
+    this.logger.info(`Wrote ${LOCKFILE_NAME} in ${workspaceRoot}`);
+  }
+
+  /**
+   * Check the rules files of every workspace folder against its lock
+   */
+  async verify() {
+    for (const folder of this.folderTracker.getFolders()) {
+      await this.verifyFolder(folder.uri.fsPath);
+    }
+  }
+
+  /**
+   * Check a folder's rules files against its lock and offer to restore them,
+   * update the lock or ignore the difference
+   */
+  private async verifyFolder(workspaceRoot: string) {
+    try {
+      const lock = await this.read(workspaceRoot);
+      if (!lock) {
+        return;
+      }
+
+      const stale = await this.findStaleTargets(workspaceRoot, lock);
+      const lockHash = hashContent(JSON.stringify(lock));
+      const ignoredKey = this.getIgnoredLockKey(workspaceRoot);
+      if (
+        stale.length === 0 ||
+        this.extensionContext?.workspaceState.get(ignoredKey) === lockHash
+      ) {
+        return;
+      }
+
+      const folder = this.folderTracker.isMultiRoot()
+        ? ` of ${this.folderTracker.getFolderName(workspaceRoot)}`
+        : "";
+      const answer = await vscode.window.showWarningMessage(
+        `Project rules${folder} in ${stale.map(({ target }) => target.label).join(", ")} don't match ${LOCKFILE_NAME}`,
+        "Restore",
+        "Update Lock",
+        "Ignore",
+      );
+      if (answer === "Restore") {
+        await this.regenerateRules(workspaceRoot, lock);
+      } else if (answer === "Update Lock") {
+        await this.pinActivePrompts(workspaceRoot);
+      } else if (answer === "Ignore") {
+        // Stay quiet until the lock itself changes
+        await this.extensionContext?.workspaceState.update(
+          ignoredKey,
+          lockHash,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Failed to verify ${LOCKFILE_NAME}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to verify ${LOCKFILE_NAME}: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Pin the active project prompts and sync targets in the lock
+   */
+  async pin() {
+    const workspaceRoot = await this.folderTracker.resolveRoot();
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage(
+        `Open a workspace to use ${LOCKFILE_NAME}`,
+      );
+      return;
+    }
+
+    try {
+      const lock = await this.pinActivePrompts(workspaceRoot);
+      vscode.window.showInformationMessage(
+        `Pinned ${lock.prompts.map(({ id }) => id).join(", ")} in ${LOCKFILE_NAME}`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to write ${LOCKFILE_NAME}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to write ${LOCKFILE_NAME}: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Rewrite the workspace rules files from the prompts pinned in the lock
+   */
+  async regenerate() {
+    const workspaceRoot = await this.folderTracker.resolveRoot();
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage(
+        `Open a workspace to use ${LOCKFILE_NAME}`,
+      );
+      return;
+    }
+
+    try {
+      const lock = await this.read(workspaceRoot);
+      if (!lock) {
+        vscode.window.showWarningMessage(
+          `No ${LOCKFILE_NAME} found in the workspace`,
+        );
+        return;
+      }
+      await this.regenerateRules(workspaceRoot, lock);
+    } catch (error) {
+      this.logger.error(`Failed to regenerate rules from lock:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to regenerate rules from ${LOCKFILE_NAME}: ${formatError(error)}`,
+      );
+    }
+  }
+
+  private async pinActivePrompts(workspaceRoot: string): Promise<PromptLock> {
+    const active = this.activePromptStore.get("project", workspaceRoot);
+    if (!active) {
+      throw new Error("Activate a project prompt before pinning it");
+    }
+
+    const library = await this.promptManager.loadPrompts(
+      "project",
+      workspaceRoot,
+    );
+    const prompts: LockedPrompt[] = [];
+    for (const { promptId } of active.blocks ?? [active]) {
+      const prompt = library.find(
+        (result) => result.prompt?.meta.id === promptId,
+      )?.prompt;
+      if (!prompt) {
+        throw new Error(
+          `Active prompt "${promptId}" is not in any prompt library`,
+        );
+      }
+      prompts.push({
+        id: promptId,
+        version: prompt.meta.version,
+        hash: await this.hashComposed(prompt, workspaceRoot),
+      });
+    }
+    const targets = await this.environmentDetector.getTargets(
+      "project",
+      workspaceRoot,
+    );
+
+    const lock: PromptLock = {
+      lockfileVersion: 1,
+      prompts,
+      syncTargets: targets.map(({ target }) => target.id),
+    };
+    await this.write(workspaceRoot, lock);
+    return lock;
+  }
+
+  private async regenerateRules(workspaceRoot: string, lock: PromptLock) {
+    const library = await this.promptManager.loadPrompts(
+      "project",
+      workspaceRoot,
+    );
+    const prompts: Prompt[] = [];
+    const changed: string[] = [];
+    for (const locked of lock.prompts) {
+      const prompt = library.find(
+        (result) => result.prompt?.meta.id === locked.id,
+      )?.prompt;
+      if (!prompt) {
+        throw new Error(
+          `Prompt "${locked.id}" pinned in ${LOCKFILE_NAME} is not in any prompt library`,
+        );
+      }
+
+      if ((await this.hashComposed(prompt, workspaceRoot)) !== locked.hash) {
+        changed.push(
+          `${prompt.meta.name}: ${locked.version} → ${prompt.meta.version}`,
+        );
+      }
+      prompts.push(prompt);
+    }
+
+    if (changed.length > 0) {
+      // The lock only records hashes, so the pinned content itself is gone
+      const answer = await vscode.window.showWarningMessage(
+        `The library no longer has the exact prompts pinned in ${LOCKFILE_NAME}`,
+        { modal: true, detail: changed.join("\n") },
+        "Regenerate and Update Lock",
+      );
+      if (answer !== "Regenerate and Update Lock") {
+        return;
+      }
+    }
+
+    const targets = await this.environmentDetector.getProjectTargetsById(
+      lock.syncTargets,
+      workspaceRoot,
+    );
+    const results = await this.promptManager.syncProjectPromptsTo(
+      prompts,
+      workspaceRoot,
+      targets,
+    );
+    const failed = results.filter((result) => result.error !== undefined);
+    if (failed.length > 0) {
+      throw new Error(
+        `Failed to write ${failed.map(({ target }) => target.label).join(", ")}: ${formatError(failed[0].error)}`,
+      );
+    }
+
+    if (changed.length > 0) {
+      await this.pinActivePrompts(workspaceRoot);
+    }
+    vscode.window.showInformationMessage(
+      `Regenerated project rules from ${LOCKFILE_NAME}`,
+    );
+  }
+
+  /**
+   * Hash of a prompt's content before its placeholders are filled in, so
+   * the lock doesn't depend on each developer's template values
+   */
+  private async hashComposed(
+    prompt: Prompt,
+    workspaceRoot: string,
+  ): Promise<string> {
+    const composed = await this.promptManager.composePrompt(
+      prompt,
+      workspaceRoot,
+    );
+    return hashContent(composed.content);
+  }
+
+  private getIgnoredLockKey(workspaceRoot: string): string {
+    return this.folderTracker.isMultiRoot()
+      ? `${IGNORED_LOCK_KEY}:${vscode.Uri.file(workspaceRoot).toString()}`
+      : IGNORED_LOCK_KEY;
+  }
+
+  /**
+   * Targets pinned in the lock whose rules don't hold the pinned prompts
+   */
+  private async findStaleTargets(
+    workspaceRoot: string,
+    lock: PromptLock,
+  ): Promise<ResolvedRulesTarget[]> {
+    const targets = await this.environmentDetector.getProjectTargetsById(
+      lock.syncTargets,
+      workspaceRoot,
+    );
+    const expected = await this.getExpectedHashes(workspaceRoot, lock);
+    const stale: ResolvedRulesTarget[] = [];
+    for (const resolved of targets) {
+      if (!expected || !(await this.matchesLock(resolved, lock, expected))) {
+        stale.push(resolved);
+      }
+    }
+    return stale;
+  }
+
+  /**
+   * Hash of the rules content each pinned prompt renders to with this
+   * developer's template values
+   * @returns undefined if the library no longer has the pinned prompts
+   */
+  private async getExpectedHashes(
+    workspaceRoot: string,
+    lock: PromptLock,
+  ): Promise<Map<string, string> | undefined> {
+    const library = await this.promptManager.loadPrompts(
+      "project",
+      workspaceRoot,
+    );
+    const expected = new Map<string, string>();
+    for (const locked of lock.prompts) {
+      const prompt = library.find(
+        (result) => result.prompt?.meta.id === locked.id,
+      )?.prompt;
+      if (
+        !prompt ||
+        (await this.hashComposed(prompt, workspaceRoot)) !== locked.hash
+      ) {
+        return undefined;
+      }
+      const resolved = await this.promptManager.resolvePrompt(
+        prompt,
+        workspaceRoot,
+      );
+      expected.set(locked.id, hashContent(resolved.content));
+    }
+    return expected;
+  }
+
+  private async matchesLock(
+    { target, rulesPath }: ResolvedRulesTarget,
+    lock: PromptLock,
+    expected: Map<string, string>,
+  ): Promise<boolean> {
+    let written: Array<{ id: string; content: string }>;
+    if (target.readPrompts) {
+      written = (await target.readPrompts(rulesPath, "project")).map(
+        (prompt) => ({ id: prompt.meta.id, content: prompt.content }),
+      );
+    } else {
+      const content = await target.read(rulesPath);
+      if (!hasManagedBlocks(content)) {
+        return (
+          lock.prompts.length === 1 &&
+          hashContent(content) === expected.get(lock.prompts[0].id)
+        );
+      }
+      written = parseManagedBlocks(content);
+    }
+
+    return lock.prompts.every((locked) =>
+      written.some(
+        ({ id, content }) =>
+          id === locked.id && hashContent(content) === expected.get(locked.id),
+      ),
+    );
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { lintPromptToml, PromptIssueCode } from "../utils/promptLint";
+import { VscodeLogger } from "../vscode-logger";
+import { PromptManager } from "./promptManager";
+
+const SOURCE = "Oh My Prompt";
+const LINT_DELAY = 300;
+
+/** Defaults offered when a required `[meta]` key is missing */
+const META_DEFAULTS: Record<string, (fileId: string, type: string) => string> =
+  {
+    type: (_fileId, type) => type,
+    id: (fileId) => fileId,
+    name: (fileId) => fileId,
+  };
+
+/**
+ * Reports problems in prompt TOML files of the libraries while they are
+ * edited, with quick fixes for the common ones
+ */
+@Service()
+export class PromptDiagnostics implements vscode.CodeActionProvider {
+  private diagnostics =
+    vscode.languages.createDiagnosticCollection("oh-my-prompt");
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  /**
+   * Start linting open prompt files
+   */
+  start() {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.workspace.onDidOpenTextDocument((document) => this.lint(document)),
+      vscode.workspace.onDidChangeTextDocument(({ document }) =>
+        this.scheduleLint(document),
+      ),
+      vscode.workspace.onDidSaveTextDocument((document) => this.lint(document)),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.diagnostics.delete(document.uri),
+      ),
+      vscode.languages.registerCodeActionsProvider(
+        { scheme: "file", pattern: "**/*.toml" },
+        this,
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] },
+      ),
+    );
+    vscode.workspace.textDocuments.forEach((document) => this.lint(document));
+  }
+
+  private isPromptFile(document: vscode.TextDocument): boolean {
+    return (
+      document.uri.scheme === "file" &&
+      document.uri.fsPath.endsWith(".toml") &&
+      this.promptManager.getLibraryRoot(document.uri.fsPath) !== undefined
+    );
+  }
+
+  private scheduleLint(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.lint(document);
+      }, LINT_DELAY),
+    );
+  }
+
+  private async lint(document: vscode.TextDocument) {
+    if (!this.isPromptFile(document)) {
+      return;
+    }
+
+    try {
+      const filePath = document.uri.fsPath;
+      const { issues } = lintPromptToml(document.getText(), {
+        fileId: path.basename(filePath, ".toml"),
+        otherIds: await this.readOtherIds(document),
+      });
+      this.diagnostics.set(
+        document.uri,
+        issues.map((issue) => {
+          const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(
+              issue.line,
+              issue.column,
+              issue.line,
+              Math.max(issue.endColumn, issue.column + 1),
+            ),
+            issue.message,
+            issue.severity === "error"
+              ? vscode.DiagnosticSeverity.Error
+              : vscode.DiagnosticSeverity.Warning,
+          );
+          diagnostic.source = SOURCE;
+          diagnostic.code = issue.code;
+          return diagnostic;
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to lint ${document.uri.fsPath}:`, error);
+    }
+  }
+
+  /**
+   * Ids used by the other prompts of the same type, across every library
+   */
+  private async readOtherIds(
+    document: vscode.TextDocument,
+  ): Promise<Map<string, string>> {
+    const filePath = document.uri.fsPath;
+    const type = this.promptManager.getLibraryPromptType(filePath);
+    const loaded = await this.promptManager.loadPrompts(
+      type,
+      vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+    );
+
+    const ids = new Map<string, string>();
+    for (const { prompt, path: otherPath, source } of loaded) {
+      if (prompt && otherPath !== filePath) {
+        ids.set(
+          prompt.meta.id,
+          `${path.basename(otherPath)} in ${source.label}`,
+        );
+      }
+    }
+    return ids;
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    return context.diagnostics
+      .filter((diagnostic) => diagnostic.source === SOURCE)
+      .flatMap((diagnostic) =>
+        this.createFixes(
+          document,
+          diagnostic,
+          diagnostic.code as PromptIssueCode,
+        ),
+      );
+  }
+
+  private createFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    code: PromptIssueCode,
+  ): vscode.CodeAction[] {
+    const fileId = path.basename(document.uri.fsPath, ".toml");
+    const line = document.lineAt(diagnostic.range.start.line);
+    const fix = (title: string, edit: vscode.WorkspaceEdit) => {
+      const action = new vscode.CodeAction(
+        title,
+        vscode.CodeActionKind.QuickFix,
+      );
+      action.diagnostics = [diagnostic];
+      action.edit = edit;
+      return action;
+    };
+
+    if (code === "id-mismatch") {
+      const value = line.text.match(/^(\s*id\s*=\s*)(.+?)\s*(#.*)?$/);
+      if (!value) {
+        return [];
+      }
+      const id = TOML.parse(`id = ${value[2]}`).id as string;
+
+      const rename = new vscode.WorkspaceEdit();
+      rename.renameFile(
+        document.uri,
+        vscode.Uri.file(
+          path.join(path.dirname(document.uri.fsPath), `${id}.toml`),
+        ),
+      );
+      const replace = new vscode.WorkspaceEdit();
+      replace.replace(
+        document.uri,
+        new vscode.Range(
+          line.lineNumber,
+          value[1].length,
+          line.lineNumber,
+          value[1].length + value[2].length,
+        ),
+        JSON.stringify(fileId),
+      );
+      return [
+        fix(`Rename file to ${id}.toml`, rename),
+        fix(`Change id to "${fileId}"`, replace),
+      ];
+    }
+
+    if (code === "unknown-key") {
+      const edit = new vscode.WorkspaceEdit();
+      edit.delete(document.uri, line.rangeIncludingLineBreak);
+      return [fix(`Remove ${line.text.split("=")[0].trim()}`, edit)];
+    }
+
+    if (code === "missing-key") {
+      const key = diagnostic.message.match(/"meta\.(\w+)"/)?.[1];
+      const defaultValue = key && META_DEFAULTS[key];
+      const header = line.text.trim() === "[meta]";
+      if (!defaultValue || !header) {
+        return [];
+      }
+      const type = this.promptManager.getLibraryPromptType(document.uri.fsPath);
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(
+        document.uri,
+        new vscode.Position(line.lineNumber + 1, 0),
+        `${key} = ${JSON.stringify(defaultValue(fileId, type))}\n`,
+      );
+      return [fix(`Add meta.${key}`, edit)];
+    }
+
+    return [];
+  }
+
+  dispose() {
+    this.pending.forEach((timeout) => clearTimeout(timeout));
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import {
+  formatPromptToml,
+  getPromptKeys,
+  PromptKey,
+  scanTomlLines,
+  TomlLine,
+} from "../utils/promptToml";
+import { VscodeLogger } from "../vscode-logger";
+import { PromptManager } from "./promptManager";
+
+const PROMPT_FILES: vscode.DocumentSelector = {
+  scheme: "file",
+  pattern: "**/*.toml",
+};
+
+/**
+ * Completion, hover and formatting for prompt TOML files of the libraries,
+ * driven by `PromptSchema`
+ */
+@Service()
+export class PromptEditorSupport
+  implements
+    vscode.CompletionItemProvider,
+    vscode.HoverProvider,
+    vscode.DocumentFormattingEditProvider
+{
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  start() {
+    this.disposables.push(
+      vscode.languages.registerCompletionItemProvider(
+        PROMPT_FILES,
+        this,
+        "[",
+        "=",
+        '"',
+      ),
+      vscode.languages.registerHoverProvider(PROMPT_FILES, this),
+      vscode.languages.registerDocumentFormattingEditProvider(
+        PROMPT_FILES,
+        this,
+      ),
+    );
+  }
+
+  private isPromptFile(document: vscode.TextDocument): boolean {
+    return (
+      document.uri.scheme === "file" &&
+      this.promptManager.getLibraryRoot(document.uri.fsPath) !== undefined
+    );
+  }
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.CompletionItem[] | undefined {
+    if (!this.isPromptFile(document)) {
+      return undefined;
+    }
+    const lines = scanTomlLines(document.getText());
+    const { table, inString } = lines[position.line];
+    if (inString) {
+      return undefined;
+    }
+
+    const before = document
+      .lineAt(position.line)
+      .text.slice(0, position.character);
+    const value = before.match(/^\s*([\w-]+)\s*=\s*("?[\w-]*)$/);
+    if (value) {
+      const key = getPromptKeys(table).find(({ name }) => name === value[1]);
+      const range = new vscode.Range(
+        position.translate(0, -value[2].length),
+        position,
+      );
+      return key?.options?.map((option) => {
+        const item = new vscode.CompletionItem(
+          option,
+          vscode.CompletionItemKind.EnumMember,
+        );
+        item.insertText = `"${option}"`;
+        item.filterText = `"${option}"`;
+        item.range = range;
+        return item;
+      });
+    }
+
+    const header = before.match(/^\s*\[([\w.-]*)$/);
+    if (header) {
+      const range = new vscode.Range(
+        position.translate(0, -header[1].length),
+        document.lineAt(position.line).range.end,
+      );
+      return this.getMissingTables(lines).map((key) => {
+        const item = this.createKeyItem(key);
+        item.insertText = `${key.name}]`;
+        item.range = range;
+        return item;
+      });
+    }
+
+    if (!/^\s*[\w-]*$/.test(before)) {
+      return undefined;
+    }
+    const defined = new Set(
+      lines
+        .filter((line) => line.key && line.table.join(".") === table.join("."))
+        .map((line) => line.key),
+    );
+    const items = getPromptKeys(table)
+      .filter((key) => key.kind !== "table" && !defined.has(key.name))
+      .map((key) => {
+        const item = this.createKeyItem(key);
+        item.insertText = this.createKeySnippet(key);
+        return item;
+      });
+    if (
+      table.length === 0 &&
+      lines.every((line) => !line.key && !line.header)
+    ) {
+      items.unshift(this.createSkeletonItem(document));
+    }
+    return items;
+  }
+
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.Hover | undefined {
+    if (!this.isPromptFile(document)) {
+      return undefined;
+    }
+    const line = scanTomlLines(document.getText())[position.line];
+    const name =
+      line.key ?? (line.header ? line.table[line.table.length - 1] : undefined);
+    if (!name || line.inString) {
+      return undefined;
+    }
+
+    const table = line.key ? line.table : line.table.slice(0, -1);
+    const key = getPromptKeys(table).find((key) => key.name === name);
+    if (!key?.description) {
+      return undefined;
+    }
+    const markdown = new vscode.MarkdownString(
+      `**${[...table, key.name].join(".")}**${key.required ? " _(required)_" : ""}\n\n${key.description}`,
+    );
+    if (key.options) {
+      markdown.appendMarkdown(
+        `\n\nOne of ${key.options.map((option) => `\`${option}\``).join(", ")}`,
+      );
+    }
+    return new vscode.Hover(markdown);
+  }
+
+  provideDocumentFormattingEdits(
+    document: vscode.TextDocument,
+  ): vscode.TextEdit[] {
+    if (!this.isPromptFile(document)) {
+      return [];
+    }
+    try {
+      return [this.createFormatEdit(document)];
+    } catch (error) {
+      // Diagnostics already point at what prevents formatting
+      this.logger.info(`Cannot format ${document.uri.fsPath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite the active prompt file in canonical key order
+   */
+  async formatActiveFile() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !editor.document.uri.fsPath.endsWith(".toml")) {
+      vscode.window.showWarningMessage("Open a prompt TOML file to format it");
+      return;
+    }
+
+    try {
+      const edit = this.createFormatEdit(editor.document);
+      await editor.edit((builder) => builder.replace(edit.range, edit.newText));
+    } catch (error) {
+      this.logger.error("Failed to format prompt file:", error);
+      vscode.window.showErrorMessage(
+        `Failed to format prompt file: ${formatError(error)}`,
+      );
+    }
+  }
+
+  private createFormatEdit(document: vscode.TextDocument): vscode.TextEdit {
+    const fullRange = new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length),
+    );
+    return vscode.TextEdit.replace(
+      fullRange,
+      formatPromptToml(document.getText()),
+    );
+  }
+
+  /**
+   * Top-level tables the file doesn't define yet
+   */
+  private getMissingTables(lines: TomlLine[]) {
+    const defined = new Set(
+      lines.filter((line) => line.header).map((line) => line.table.join(".")),
+    );
+    return getPromptKeys([]).filter(
+      (key) => key.kind === "table" && !defined.has(key.name),
+    );
+  }
+
+  private createKeyItem(key: PromptKey): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(
+      key.name,
+      key.kind === "table"
+        ? vscode.CompletionItemKind.Module
+        : vscode.CompletionItemKind.Property,
+    );
+    item.detail = key.required ? "required" : "optional";
+    item.documentation = key.description
+      ? new vscode.MarkdownString(key.description)
+      : undefined;
+    // Required keys first
+    item.sortText = `${key.required ? 0 : 1}${key.name}`;
+    return item;
+  }
+
+  private createKeySnippet(key: PromptKey): vscode.SnippetString {
+    if (key.name === "content") {
+      return new vscode.SnippetString('content = """\n$0\n"""');
+    }
+    switch (key.kind) {
+      case "enum":
+        return new vscode.SnippetString(
+          `${key.name} = "\${1|${key.options!.join(",")}|}"`,
+        );
+      case "boolean":
+        return new vscode.SnippetString(`${key.name} = \${1|true,false|}`);
+      case "number":
+        return new vscode.SnippetString(`${key.name} = $1`);
+      case "array":
+        return new vscode.SnippetString(`${key.name} = [$1]`);
+      default:
+        return new vscode.SnippetString(`${key.name} = "$1"`);
+    }
+  }
+
+  /**
+   * A complete new prompt, typed after the library folder it is in
+   */
+  private createSkeletonItem(
+    document: vscode.TextDocument,
+  ): vscode.CompletionItem {
+    const fileId = path.basename(document.uri.fsPath, ".toml");
+    const type = this.promptManager.getLibraryPromptType(document.uri.fsPath);
+    const item = new vscode.CompletionItem(
+      "prompt",
+      vscode.CompletionItemKind.Snippet,
+    );
+    item.detail = "New prompt skeleton";
+    item.sortText = "0";
+    item.insertText = new vscode.SnippetString(
+      [
+        'content = """',
+        "${0:Your prompt content here}",
+        '"""',
+        "",
+        "[meta]",
+        `type = "\${1|${type},${type === "global" ? "project" : "global"}|}"`,
+        `id = "\${2:${fileId}}"`,
+        `name = "\${3:${fileId}}"`,
+        'description = "$4"',
+        'author = "${5:Anonymous}"',
+        'version = "0.1.0"',
+        `date = "${new Date().toISOString()}"`,
+        'license = "MIT"',
+        "",
+      ].join("\n"),
+    );
+    return item;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
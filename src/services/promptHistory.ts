@@ -0,0 +1,259 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Service } from "typedi";
+import { PromptSnapshot, SnapshotReason } from "../types/history";
+import { Prompt, PromptSchema, PromptType } from "../types/prompt";
+import { getConfig } from "../utils/config";
+import {
+  convertPromptText,
+  getPromptFileId,
+  getPromptFormat,
+} from "../utils/promptFormat";
+import { VscodeLogger } from "../vscode-logger";
+
+const HISTORY_DIR = "history";
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// e.g. 2026-10-19T08-30-00-000Z.save.toml
+const SNAPSHOT_FILE =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.(save|sync|delete|restore)\.toml$/;
+
+/**
+ * Keeps local snapshots of every prompt file, taken when it is saved, synced
+ * or deleted, so earlier versions and deleted prompts can be restored
+ */
+@Service()
+export class PromptHistory {
+  private readonly HISTORY_ROOT = path.join(
+    process.env.HOME || process.env.USERPROFILE || "",
+    ".neurora/oh-my-prompt",
+    HISTORY_DIR,
+  );
+
+  constructor(private readonly logger: VscodeLogger) {}
+
+  /**
+   * Snapshot a prompt's file content, unless it matches the latest snapshot
+   */
+  async record(
+    type: PromptType,
+    promptId: string,
+    content: string,
+    reason: SnapshotReason,
+  ): Promise<void> {
+    try {
+      const [latest] = await this.list(type, promptId);
+      if (
+        latest &&
+        reason !== "delete" &&
+        (await this.read(latest)) === content
+      ) {
+        return;
+      }
+
+      const dir = this.getHistoryDir(type, promptId);
+      await fs.mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await fs.writeFile(
+        path.join(dir, `${stamp}.${reason}.toml`),
+        content,
+        "utf-8",
+      );
+      await this.prune(type, promptId);
+    } catch (error) {
+      // History is best effort, it must never block saving a prompt
+      this.logger.error(`Failed to record history of ${promptId}:`, error);
+    }
+  }
+
+  /**
+   * Snapshot a prompt file as it is on disk
+   * @param type scope of the file's library, used if the file doesn't parse
+   */
+  async recordFile(
+    filePath: string,
+    type: PromptType,
+    reason: SnapshotReason,
+  ): Promise<void> {
+    const content = await this.readSnapshotContent(filePath);
+    if (content === undefined) {
+      return;
+    }
+    const identified = this.identify(filePath, content, type);
+    await this.record(identified.type, identified.promptId, content, reason);
+  }
+
+  /**
+   * Snapshot a prompt file as it is on disk if it has no history yet, so
+   * the version before the first tracked change can be restored
+   */
+  async recordBaseline(filePath: string, type: PromptType): Promise<void> {
+    const content = await this.readSnapshotContent(filePath);
+    if (content === undefined) {
+      return;
+    }
+    const identified = this.identify(filePath, content, type);
+    if ((await this.list(identified.type, identified.promptId)).length === 0) {
+      await this.record(identified.type, identified.promptId, content, "save");
+    }
+  }
+
+  /**
+   * Snapshots of a prompt, newest first
+   */
+  async list(type: PromptType, promptId: string): Promise<PromptSnapshot[]> {
+    const dir = this.getHistoryDir(type, promptId);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .flatMap((file) => {
+        const match = file.match(SNAPSHOT_FILE);
+        if (!match) {
+          return [];
+        }
+        const [, date, hours, minutes, seconds, millis, reason] = match;
+        return [
+          {
+            type,
+            promptId,
+            path: path.join(dir, file),
+            reason: reason as SnapshotReason,
+            createdAt: new Date(
+              `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+            ),
+          },
+        ];
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * The latest snapshot of each prompt with history that is no longer in
+   * any library
+   */
+  async listDeleted(
+    type: PromptType,
+    existingIds: Set<string>,
+  ): Promise<PromptSnapshot[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(path.join(this.HISTORY_ROOT, type));
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const deleted: PromptSnapshot[] = [];
+    for (const id of ids.filter((id) => !existingIds.has(id))) {
+      const [latest] = await this.list(type, id);
+      if (latest) {
+        deleted.push(latest);
+      }
+    }
+    return deleted.sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async read(snapshot: PromptSnapshot): Promise<string> {
+    return fs.readFile(snapshot.path, "utf-8");
+  }
+
+  /**
+   * Parse a snapshot, if it holds a valid prompt
+   */
+  async readPrompt(snapshot: PromptSnapshot): Promise<Prompt | undefined> {
+    const result = PromptSchema.safeParse(
+      this.parseToml(await this.read(snapshot)),
+    );
+    return result.success ? result.data : undefined;
+  }
+
+  /**
+   * Drop the oldest snapshots beyond `ohMyPrompt.historyLimit`
+   */
+  private async prune(type: PromptType, promptId: string) {
+    const limit = Math.max(
+      1,
+      getConfig().get<number>("historyLimit", DEFAULT_HISTORY_LIMIT),
+    );
+    const expired = (await this.list(type, promptId)).slice(limit);
+    await Promise.all(expired.map((snapshot) => fs.unlink(snapshot.path)));
+  }
+
+  private getHistoryDir(type: PromptType, promptId: string): string {
+    return path.join(this.HISTORY_ROOT, type, promptId);
+  }
+
+  /**
+   * Work out which prompt a file holds, falling back to its library's scope
+   * and file name for files that don't parse
+   */
+  private identify(
+    filePath: string,
+    content: string,
+    type: PromptType,
+  ): { type: PromptType; promptId: string } {
+    const result = PromptSchema.safeParse(this.parseToml(content));
+    if (result.success) {
+      return { type: result.data.meta.type, promptId: result.data.meta.id };
+    }
+    return { type, promptId: getPromptFileId(filePath) };
+  }
+
+  /**
+   * Read a prompt file as TOML, the format snapshots are kept in. Markdown
+   * files that don't parse are kept as they are
+   */
+  private async readSnapshotContent(
+    filePath: string,
+  ): Promise<string | undefined> {
+    const content = await this.readFile(filePath);
+    const format = getPromptFormat(filePath) ?? "toml";
+    if (content === undefined || format === "toml") {
+      return content;
+    }
+    try {
+      return convertPromptText(content, format, "toml");
+    } catch {
+      return content;
+    }
+  }
+
+  private parseToml(content: string): unknown {
+    try {
+      return TOML.parse(content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        this.logger.error(`Failed to read ${filePath} for history:`, error);
+      }
+      return undefined;
+    }
+  }
+}
@@ -12,23 +12,100 @@ import * as path from "path";
 import { Service } from "typedi";
 import { v4 as uuidv4 } from "uuid";
 import * as vscode from "vscode";
-import { openCursorSettings } from "../utils/open-cursor-settings";
 
-import { Prompt, PromptMeta, PromptSchema, PromptType } from "../types/prompt";
+import { PromptSnapshot } from "../types/history";
+import { LibraryRoot, LoadedPrompt } from "../types/library";
+import { PromptMigrationResult } from "../types/migration";
+import {
+  Prompt,
+  PromptFormat,
+  PromptMeta,
+  PromptSchema,
+  PromptType,
+} from "../types/prompt";
+import {
+  ResolvedRulesTarget,
+  RulesOverwritePreview,
+  RulesSyncResult,
+  SyncMode,
+} from "../types/target";
+import {
+  TrashEntry,
+  TrashEntryMeta,
+  TrashEntryMetaSchema,
+} from "../types/trash";
+import { getConfig } from "../utils/config";
+import {
+  getUnmanagedContent,
+  hasManagedBlocks,
+  parseManagedBlocks,
+  renderManagedBlocks,
+  stripManagedMarkers,
+} from "../utils/managedBlocks";
+import {
+  convertPromptText,
+  getPromptFileId,
+  getPromptFileName,
+  getPromptFormat,
+  isPromptFile,
+  parsePromptText,
+  stringifyPrompt,
+} from "../utils/promptFormat";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migratePromptData,
+  needsMigration,
+} from "../utils/promptMigration";
+import {
+  dependsOnPrompt,
+  isComposedPrompt,
+  PromptLookup,
+  resolvePromptComposition,
+} from "../utils/promptComposition";
+import {
+  findTemplateVariables,
+  renderTemplate,
+} from "../utils/templateVariables";
 import { VscodeLogger } from "../vscode-logger";
+import { ActivePromptStore } from "./activePromptStore";
 import { DocumentWatcher } from "./documentWatcher";
 import { EnvironmentDetector } from "./environmentDetector";
+import { PromptHistory } from "./promptHistory";
+import { TemplateVariableStore } from "./templateVariableStore";
+import { WorkspaceFolderTracker } from "./workspaceFolderTracker";
+
+/**
+ * Bump the patch part of a semver-like version, keeping any pre-release or
+ * build suffix, e.g. 0.1.0 -> 0.1.1 and 0.1.0-beta -> 0.1.1-beta
+ */
+const bumpPatchVersion = (version: string): string => {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)(.*)$/);
+  if (!match) {
+    return "0.0.1";
+  }
+  const [, major, minor, patch, suffix] = match;
+  return `${major}.${minor}.${Number(patch) + 1}${suffix}`;
+};
 
 @Service()
 export class PromptManager {
   private readonly PROMPT_DIR = "~/.neurora/oh-my-prompt/prompts";
+  private readonly WORKSPACE_PROMPT_DIR = ".oh-my-prompt/prompts";
+  private readonly TRASH_DIR = ".trash";
+  private readonly BACKUP_DIR = "~/.neurora/oh-my-prompt/backups";
   private extensionContext?: vscode.ExtensionContext;
   private pendingImportItem?: vscode.StatusBarItem;
+  private outdatedEmitter = new vscode.EventEmitter<string[]>();
 
   constructor(
     public environmentDetector: EnvironmentDetector,
     private logger: VscodeLogger,
     private documentWatcher: DocumentWatcher,
+    private activePromptStore: ActivePromptStore,
+    private templateVariableStore: TemplateVariableStore,
+    private folderTracker: WorkspaceFolderTracker,
+    private promptHistory: PromptHistory,
   ) {
     this.ensurePromptDirectories();
   }
@@ -41,31 +118,132 @@ export class PromptManager {
   }
 
   /**
-   * Get the absolute path to the prompt directory
+   * Fired with the files `loadPrompts` found in an older format, which are
+   * only migrated in memory
+   */
+  get onDidLoadOutdatedPrompts(): vscode.Event<string[]> {
+    return this.outdatedEmitter.event;
+  }
+
+  /**
+   * Get the absolute path to the library new prompts are saved to, the first
+   * writable one
    */
   getPromptDir(): string {
-    return this.expandPath(this.PROMPT_DIR);
+    const root = this.getUserLibraryRoots().find((root) => !root.readOnly);
+    if (!root) {
+      throw new Error("No writable prompt library is configured");
+    }
+    return root.path;
+  }
+
+  /**
+   * Prompt libraries in order of precedence: the configured ones, defaulting
+   * to the personal library, then the workspace library
+   * @param workspaceRoot Folder whose library to include, defaults to the active one
+   */
+  getLibraryRoots(workspaceRoot?: string): LibraryRoot[] {
+    const workspaceLibrary = this.getWorkspaceLibrary(workspaceRoot);
+    return workspaceLibrary
+      ? [...this.getUserLibraryRoots(), workspaceLibrary]
+      : this.getUserLibraryRoots();
+  }
+
+  /**
+   * The library committed with a workspace folder, if a workspace is open
+   */
+  getWorkspaceLibrary(
+    workspaceRoot = this.folderTracker.getActiveRoot(),
+  ): LibraryRoot | undefined {
+    if (!workspaceRoot) {
+      return undefined;
+    }
+    return {
+      path: path.join(workspaceRoot, this.WORKSPACE_PROMPT_DIR),
+      label: "Workspace",
+      readOnly: false,
+      workspace: true,
+    };
+  }
+
+  private getUserLibraryRoots(): LibraryRoot[] {
+    const configured = getConfig().get<
+      Array<{ path: string; label?: string; readOnly?: boolean }>
+    >("libraryRoots", []);
+    const roots =
+      configured.length > 0
+        ? configured
+        : [{ path: this.PROMPT_DIR, label: "Personal" }];
+
+    return roots.map((root) => ({
+      path: this.expandPath(root.path),
+      label: root.label ?? path.basename(root.path),
+      readOnly: root.readOnly ?? false,
+    }));
+  }
+
+  /**
+   * Get the library a file belongs to, if any
+   */
+  getLibraryRoot(filePath: string): LibraryRoot | undefined {
+    return this.getAllLibraryRoots().find((root) => {
+      const relative = path.relative(root.path, filePath);
+      return (
+        !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+      );
+    });
+  }
+
+  /**
+   * Scope of the prompts kept where a library file is: the workspace library
+   * holds project prompts only, the others have a folder per scope
+   */
+  getLibraryPromptType(filePath: string): PromptType {
+    const root = this.getLibraryRoot(filePath);
+    if (root?.workspace) {
+      return "project";
+    }
+    const [folder] = root
+      ? path.relative(root.path, filePath).split(path.sep)
+      : [path.basename(path.dirname(filePath))];
+    return folder === "global" ? "global" : "project";
+  }
+
+  /**
+   * The configured libraries and those of every workspace folder
+   */
+  private getAllLibraryRoots(): LibraryRoot[] {
+    const workspaceLibraries = this.folderTracker
+      .getFolders()
+      .flatMap((folder) => this.getWorkspaceLibrary(folder.uri.fsPath) ?? []);
+    return [...this.getUserLibraryRoots(), ...workspaceLibraries];
   }
 
   private async ensurePromptDirectories() {
     try {
-      // Create base prompt directory
-      const baseDir = this.getPromptDir();
-      await fs.mkdir(baseDir, { recursive: true });
-
-      // Create type-specific directories
       const types: PromptType[] = ["global", "project"];
+      const writable = this.getUserLibraryRoots().filter(
+        (root) => !root.readOnly,
+      );
       await Promise.all(
-        types.map(async (type) => {
-          const typeDir = path.join(baseDir, type);
-          await fs.mkdir(typeDir, { recursive: true });
-        }),
+        writable.flatMap((root) =>
+          // Create type-specific directories
+          types.map((type) =>
+            fs.mkdir(path.join(root.path, type), { recursive: true }),
+          ),
+        ),
       );
     } catch (error) {
       this.logger.error("Failed to create prompt directories:", error);
     }
   }
 
+  private assertWritable(source: LibraryRoot | undefined) {
+    if (source?.readOnly) {
+      throw new Error(`Prompt library "${source.label}" is read-only`);
+    }
+  }
+
   private expandPath(filepath: string): string {
     if (filepath.startsWith("~/")) {
       return path.join(
@@ -79,22 +257,23 @@ export class PromptManager {
   /**
    * Import a prompt from IDE rules file
    */
-  async importFromIdeRules(type: PromptType): Promise<Prompt | null> {
+  async importFromIdeRules(
+    type: PromptType,
+    source?: ResolvedRulesTarget,
+    content?: string,
+  ): Promise<Prompt | null> {
     try {
       const workspaceRoot =
-        type === "project"
-          ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-          : undefined;
+        type === "project" ? this.folderTracker.getActiveRoot() : undefined;
 
-      const rulesPath = await this.environmentDetector.getRulesPath(
-        type,
-        workspaceRoot,
-      );
+      const { target, rulesPath } =
+        source ??
+        (await this.environmentDetector.getPrimaryTarget(type, workspaceRoot));
       this.logger.info(`Importing ${type} rules from: ${rulesPath}`);
 
-      if (await this.fileExists(rulesPath)) {
-        const content = await fs.readFile(rulesPath, "utf-8");
-        const ide = await this.environmentDetector.detect();
+      if (content !== undefined || (await this.fileExists(rulesPath))) {
+        const rules =
+          content ?? stripManagedMarkers(await target.read(rulesPath));
 
         // Generate a unique timestamp-based ID
         const timestamp = new Date()
@@ -107,19 +286,19 @@ export class PromptManager {
         const prompt: Prompt = {
           meta: {
             type,
-            id: `imported_${ide.toLowerCase()}_${timestamp}`,
-            name: `Imported from ${ide}`,
-            description: `Rules imported from ${ide} at ${new Date().toLocaleString()}`,
+            id: `imported_${target.id}_${timestamp}`,
+            name: `Imported from ${target.label}`,
+            description: `Rules imported from ${target.label} at ${new Date().toLocaleString()}`,
             author: "IDE Import",
             version: "0.0.1",
             date: new Date().toISOString(),
             license: "MIT",
           },
-          content,
+          content: rules,
         };
 
         await this.savePrompt(prompt);
-        this.logger.info(`Imported ${type} rules from ${ide}`);
+        this.logger.info(`Imported ${type} rules from ${target.label}`);
         return prompt;
       } else {
         this.logger.info(`No ${type} rules file found at: ${rulesPath}`);
@@ -141,52 +320,236 @@ export class PromptManager {
   }
 
   /**
-   * Load all prompts of a specific type
+   * Load all prompts of a specific type, reporting prompts whose `extends`
+   * or `include` cannot be resolved as errors
    */
   async loadPrompts(
     type: PromptType,
-  ): Promise<Array<{ prompt: Prompt | null; path: string; error?: string }>> {
-    const promptDir = path.join(this.getPromptDir(), type);
+    workspaceRoot?: string,
+  ): Promise<LoadedPrompt[]> {
+    const results = await this.readPromptFiles(type, workspaceRoot);
+    const outdated = results.filter((result) => result.migratedFrom);
+    if (outdated.length > 0) {
+      this.outdatedEmitter.fire(outdated.map((result) => result.path));
+    }
+    const lookup = await this.createPromptLookup(type, results, workspaceRoot);
+    return results.map((result) => {
+      if (!result.prompt || !isComposedPrompt(result.prompt)) {
+        return result;
+      }
+      try {
+        resolvePromptComposition(result.prompt, lookup);
+        return result;
+      } catch (error) {
+        return {
+          ...result,
+          prompt: null,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    });
+  }
+
+  /**
+   * Read the prompts of every library; when several define the same id the
+   * one from the earlier library wins
+   */
+  private async readPromptFiles(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<LoadedPrompt[]> {
+    const seen = new Set<string>();
+    const results: LoadedPrompt[] = [];
+    for (const source of this.getLibraryRoots(workspaceRoot)) {
+      for (const result of await this.readLibraryDir(source, type)) {
+        const id = result.prompt?.meta.id;
+        if (id !== undefined) {
+          if (seen.has(id)) {
+            this.logger.info(
+              `Prompt "${id}" in ${result.path} is shadowed by an earlier library`,
+            );
+            continue;
+          }
+          seen.add(id);
+        }
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  private async readLibraryDir(
+    source: LibraryRoot,
+    type: PromptType,
+  ): Promise<LoadedPrompt[]> {
+    if (source.workspace && type !== "project") {
+      return [];
+    }
+
+    const promptDir = source.workspace
+      ? source.path
+      : path.join(source.path, type);
     try {
       const files = await fs.readdir(promptDir);
       return await Promise.all(
-        files
-          .filter((file) => file.endsWith(".toml"))
-          .map(async (file) => {
-            const filePath = path.join(promptDir, file);
-            try {
-              const content = await fs.readFile(filePath, "utf-8");
-              return {
-                path: filePath,
-                prompt: PromptSchema.parse(TOML.parse(content)),
-                error: undefined,
-              };
-            } catch (error) {
-              this.logger.error(
-                `Failed to parse prompt file ${filePath}:`,
-                error,
-              );
-              return {
-                prompt: null,
-                path: filePath,
-                error: error instanceof Error ? error.message : "Unknown error",
-              };
-            }
-          }),
+        files.filter(isPromptFile).map(async (file) => {
+          const filePath = path.join(promptDir, file);
+          try {
+            const content = await fs.readFile(filePath, "utf-8");
+            const data = parsePromptText(content, getPromptFormat(file)!);
+            const outdated = needsMigration(data);
+            return {
+              path: filePath,
+              prompt: PromptSchema.parse(
+                outdated ? migratePromptData(data).data : data,
+              ),
+              error: undefined,
+              source,
+              migratedFrom: outdated ? getSchemaVersion(data) : undefined,
+            };
+          } catch (error) {
+            this.logger.error(
+              `Failed to parse prompt file ${filePath}:`,
+              error,
+            );
+            return {
+              prompt: null,
+              path: filePath,
+              error: error instanceof Error ? error.message : "Unknown error",
+              source,
+            };
+          }
+        }),
       );
     } catch (error) {
-      this.logger.error(`Failed to load ${type} prompts:`, error);
+      // Libraries such as the workspace one are optional
+      if ((error as { code?: string }).code !== "ENOENT") {
+        this.logger.error(
+          `Failed to load ${type} prompts from ${source.label}:`,
+          error,
+        );
+      }
       return [];
     }
   }
 
   /**
-   * Delete a prompt file by path
+   * Look up prompts by id for composition, preferring prompts of the given
+   * scope over same-id prompts of the other one
+   */
+  private async createPromptLookup(
+    type: PromptType,
+    loaded?: Array<{ prompt: Prompt | null }>,
+    workspaceRoot?: string,
+  ): Promise<PromptLookup> {
+    const otherType: PromptType = type === "global" ? "project" : "global";
+    const [own, other] = await Promise.all([
+      loaded ?? this.readPromptFiles(type, workspaceRoot),
+      this.readPromptFiles(otherType, workspaceRoot),
+    ]);
+
+    const prompts = new Map<string, Prompt>();
+    for (const { prompt } of [...other, ...own]) {
+      if (prompt) {
+        prompts.set(prompt.meta.id, prompt);
+      }
+    }
+    return (id) => prompts.get(id);
+  }
+
+  /**
+   * Expand a prompt's `extends` and `include` into its content and fill in
+   * its `{{variable}}` placeholders
+   */
+  async resolvePrompt(prompt: Prompt, workspaceRoot?: string): Promise<Prompt> {
+    const composed = await this.composePrompt(prompt, workspaceRoot);
+    if (findTemplateVariables(composed.content).length === 0) {
+      return composed;
+    }
+
+    const values = await this.templateVariableStore.getValues(
+      composed.variables,
+      workspaceRoot,
+    );
+    return { ...composed, content: renderTemplate(composed.content, values) };
+  }
+
+  /**
+   * Placeholders of a prompt that have no value yet
+   */
+  async getMissingVariables(
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<string[]> {
+    const composed = await this.composePrompt(prompt, workspaceRoot);
+    const values = await this.templateVariableStore.getValues(
+      composed.variables,
+      workspaceRoot,
+    );
+    return findTemplateVariables(composed.content).filter(
+      (name) => !(name in values),
+    );
+  }
+
+  /**
+   * Inline a prompt's `extends` and `include`, leaving its placeholders as is
    */
-  async deletePromptFile(filePath: string): Promise<void> {
+  async composePrompt(prompt: Prompt, workspaceRoot?: string): Promise<Prompt> {
+    if (!isComposedPrompt(prompt)) {
+      return prompt;
+    }
+    return resolvePromptComposition(
+      prompt,
+      await this.createPromptLookup(prompt.meta.type, undefined, workspaceRoot),
+    );
+  }
+
+  /**
+   * Scopes, and for project prompts the workspace folders, whose active
+   * prompts are composed from the given prompt
+   */
+  async getActiveDependents(
+    promptId: string,
+  ): Promise<Array<{ type: PromptType; workspaceRoot?: string }>> {
+    const scopes: Array<{ type: PromptType; workspaceRoot?: string }> = [
+      { type: "global" },
+      ...this.folderTracker.getFolders().map((folder) => ({
+        type: "project" as const,
+        workspaceRoot: folder.uri.fsPath,
+      })),
+    ];
+    const dependents: Array<{ type: PromptType; workspaceRoot?: string }> = [];
+    for (const scope of scopes) {
+      const lookup = await this.createPromptLookup(
+        scope.type,
+        undefined,
+        scope.workspaceRoot,
+      );
+      const active = await this.getActivePrompts(
+        scope.type,
+        scope.workspaceRoot,
+      );
+      if (active.some((prompt) => dependsOnPrompt(prompt, promptId, lookup))) {
+        dependents.push(scope);
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * Move a prompt file that failed to load to the trash
+   */
+  async deletePromptFile(filePath: string): Promise<TrashEntry> {
+    this.assertWritable(this.getLibraryRoot(filePath));
     try {
-      await fs.unlink(filePath);
-      this.logger.info(`Deleted prompt file: ${filePath}`);
+      const type = this.getLibraryPromptType(filePath);
+      await this.promptHistory.recordFile(filePath, type, "delete");
+      const entry = await this.moveToTrash(filePath, {
+        type,
+        name: path.basename(filePath),
+      });
+      this.logger.info(`Moved prompt file to trash: ${filePath}`);
+      return entry;
     } catch (error) {
       this.logger.error("Failed to delete prompt file:", error);
       throw error;
@@ -200,7 +563,10 @@ export class PromptManager {
     const prompt = await this.createPromptUnsaved(type);
     const promptDir = path.join(this.getPromptDir(), type);
     await fs.mkdir(promptDir, { recursive: true });
-    const filePath = path.join(promptDir, `${prompt.meta.id}.toml`);
+    const filePath = path.join(
+      promptDir,
+      getPromptFileName(prompt.meta.id, this.getNewPromptFormat()),
+    );
     await this.writePromptToFile(prompt, filePath);
     return prompt;
   }
@@ -218,6 +584,7 @@ export class PromptManager {
       author: "User",
       date: new Date().toISOString(),
       license: "MIT",
+      tags: [],
     };
 
     return {
@@ -229,12 +596,264 @@ export class PromptManager {
 
   /**
    * Save prompt content to file
+   * @param filePath library file to write, defaults to where the prompt's id
+   * is found
    */
-  public async savePrompt(prompt: Prompt): Promise<void> {
+  public async savePrompt(prompt: Prompt, filePath?: string): Promise<void> {
+    if (filePath) {
+      this.assertWritable(this.getLibraryRoot(filePath));
+      await this.writePromptToFile(PromptSchema.parse(prompt), filePath);
+      return;
+    }
+
+    const existing = await this.locatePrompt(prompt);
+    if (existing) {
+      this.assertWritable(existing.source);
+      await this.writePromptToFile(prompt, existing.path);
+      return;
+    }
+
     const promptDir = path.join(this.getPromptDir(), prompt.meta.type);
     await fs.mkdir(promptDir, { recursive: true });
-    const filePath = path.join(promptDir, `${prompt.meta.id}.toml`);
-    await this.writePromptToFile(prompt, filePath);
+    await this.writePromptToFile(
+      prompt,
+      path.join(
+        promptDir,
+        getPromptFileName(prompt.meta.id, this.getNewPromptFormat()),
+      ),
+    );
+  }
+
+  /**
+   * Path of a prompt's library file, or of the file it would be saved to
+   */
+  async getPromptPath(prompt: Prompt): Promise<string> {
+    return (
+      (await this.locatePrompt(prompt))?.path ??
+      path.join(
+        this.getPromptDir(),
+        prompt.meta.type,
+        getPromptFileName(prompt.meta.id, this.getNewPromptFormat()),
+      )
+    );
+  }
+
+  /**
+   * Format new prompt files are written in
+   */
+  getNewPromptFormat(): PromptFormat {
+    return getConfig().get<PromptFormat>("promptFormat", "toml");
+  }
+
+  /**
+   * Rewrite a prompt file in the other storage format, replacing the
+   * original
+   * @returns the new file
+   */
+  async convertPromptFormat(
+    loaded: LoadedPrompt,
+    format: PromptFormat,
+  ): Promise<string> {
+    if (!loaded.prompt) {
+      throw new Error("Cannot convert a prompt that failed to load");
+    }
+    this.assertWritable(loaded.source);
+    if (getPromptFormat(loaded.path) === format) {
+      return loaded.path;
+    }
+
+    const filePath = path.join(
+      path.dirname(loaded.path),
+      getPromptFileName(getPromptFileId(loaded.path), format),
+    );
+    if (await this.fileExists(filePath)) {
+      throw new Error(`${path.basename(filePath)} already exists`);
+    }
+    await this.writePromptToFile(loaded.prompt, filePath);
+    try {
+      // Only drop the original once the new file reads back
+      PromptSchema.parse(
+        parsePromptText(await fs.readFile(filePath, "utf-8"), format),
+      );
+    } catch (error) {
+      await fs.unlink(filePath);
+      throw new Error(
+        `${path.basename(filePath)} could not be read back, kept ${path.basename(loaded.path)}: ${formatError(error)}`,
+      );
+    }
+    await fs.unlink(loaded.path);
+    this.logger.info(`Converted prompt ${loaded.path} to ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Find a prompt's file in a library folder, whatever its format
+   */
+  private async findPromptFile(
+    dir: string,
+    id: string,
+  ): Promise<string | undefined> {
+    for (const format of ["toml", "markdown"] as PromptFormat[]) {
+      const filePath = path.join(dir, getPromptFileName(id, format));
+      if (await this.fileExists(filePath)) {
+        return filePath;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Move a project prompt into the workspace library so it is shared with
+   * the repository
+   */
+  async moveToWorkspaceLibrary(
+    loaded: LoadedPrompt,
+    workspaceRoot?: string,
+  ): Promise<string> {
+    const library = this.getWorkspaceLibrary(workspaceRoot);
+    if (!library || !loaded.prompt) {
+      throw new Error("Open a workspace to use its prompt library");
+    }
+    this.assertWritable(loaded.source);
+
+    if (await this.findPromptFile(library.path, loaded.prompt.meta.id)) {
+      throw new Error(
+        `The workspace library already has a prompt with id "${loaded.prompt.meta.id}"`,
+      );
+    }
+    const filePath = path.join(
+      library.path,
+      getPromptFileName(loaded.prompt.meta.id, getPromptFormat(loaded.path)!),
+    );
+    await fs.mkdir(library.path, { recursive: true });
+    await this.writePromptToFile(loaded.prompt, filePath);
+    await fs.unlink(loaded.path);
+    this.logger.info(`Moved prompt ${loaded.path} to ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Copy a workspace prompt into the personal library, where it takes
+   * precedence over the workspace copy
+   */
+  async copyToPersonalLibrary(loaded: LoadedPrompt): Promise<string> {
+    if (!loaded.prompt) {
+      throw new Error("Cannot copy a prompt that failed to load");
+    }
+
+    const promptDir = path.join(this.getPromptDir(), loaded.prompt.meta.type);
+    await fs.mkdir(promptDir, { recursive: true });
+    const filePath =
+      (await this.findPromptFile(promptDir, loaded.prompt.meta.id)) ??
+      path.join(
+        promptDir,
+        getPromptFileName(loaded.prompt.meta.id, getPromptFormat(loaded.path)!),
+      );
+    await this.writePromptToFile(loaded.prompt, filePath);
+    this.logger.info(`Copied prompt ${loaded.path} to ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Copy a prompt under a new id next to the original, or to the personal
+   * library if the original's is read-only
+   */
+  async duplicatePrompt(loaded: LoadedPrompt): Promise<string> {
+    if (!loaded.prompt) {
+      throw new Error("Cannot duplicate a prompt that failed to load");
+    }
+
+    const promptDir = loaded.source.readOnly
+      ? path.join(this.getPromptDir(), loaded.prompt.meta.type)
+      : path.dirname(loaded.path);
+    let id = `${loaded.prompt.meta.id}-copy`;
+    for (let i = 2; await this.findPromptFile(promptDir, id); i++) {
+      id = `${loaded.prompt.meta.id}-copy-${i}`;
+    }
+    const filePath = path.join(
+      promptDir,
+      getPromptFileName(id, getPromptFormat(loaded.path)!),
+    );
+    await fs.mkdir(promptDir, { recursive: true });
+    await this.writePromptToFile(
+      {
+        ...loaded.prompt,
+        meta: {
+          ...loaded.prompt.meta,
+          id,
+          name: `${loaded.prompt.meta.name} (copy)`,
+          date: new Date().toISOString(),
+        },
+      },
+      filePath,
+    );
+    this.logger.info(`Duplicated prompt ${loaded.path} to ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Change the name a prompt is shown with, its id and file stay the same
+   */
+  async renamePrompt(loaded: LoadedPrompt, name: string): Promise<void> {
+    if (!loaded.prompt) {
+      throw new Error("Cannot rename a prompt that failed to load");
+    }
+    this.assertWritable(loaded.source);
+    await this.writePromptToFile(
+      { ...loaded.prompt, meta: { ...loaded.prompt.meta, name } },
+      loaded.path,
+    );
+  }
+
+  /**
+   * Turn a global prompt into a project one or the other way around,
+   * moving its file to the folder of the new type. Workspace prompts become
+   * global in the personal library, which is the only one holding both
+   */
+  async changePromptType(
+    loaded: LoadedPrompt,
+    type: PromptType,
+  ): Promise<string> {
+    if (!loaded.prompt) {
+      throw new Error("Cannot move a prompt that failed to load");
+    }
+    if (loaded.prompt.meta.type === type) {
+      return loaded.path;
+    }
+    this.assertWritable(loaded.source);
+
+    const promptDir = path.join(
+      loaded.source.workspace ? this.getPromptDir() : loaded.source.path,
+      type,
+    );
+    if (await this.findPromptFile(promptDir, loaded.prompt.meta.id)) {
+      throw new Error(
+        `A ${type} prompt with id "${loaded.prompt.meta.id}" already exists`,
+      );
+    }
+    const filePath = path.join(
+      promptDir,
+      getPromptFileName(loaded.prompt.meta.id, getPromptFormat(loaded.path)!),
+    );
+    await fs.mkdir(promptDir, { recursive: true });
+    await this.writePromptToFile(
+      { ...loaded.prompt, meta: { ...loaded.prompt.meta, type } },
+      filePath,
+    );
+    await fs.unlink(loaded.path);
+    this.logger.info(`Moved prompt ${loaded.path} to ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Find the library file a prompt was loaded from
+   */
+  private async locatePrompt(
+    prompt: Prompt,
+  ): Promise<LoadedPrompt | undefined> {
+    return (await this.readPromptFiles(prompt.meta.type)).find(
+      (result) => result.prompt?.meta.id === prompt.meta.id,
+    );
   }
 
   /**
@@ -245,8 +864,20 @@ export class PromptManager {
     filePath: string,
   ): Promise<void> {
     try {
-      const content = TOML.stringify(prompt);
-      await fs.writeFile(filePath, content, "utf-8");
+      await this.promptHistory.recordBaseline(filePath, prompt.meta.type);
+      const data = { ...prompt, schemaVersion: CURRENT_SCHEMA_VERSION };
+      await fs.writeFile(
+        filePath,
+        stringifyPrompt(data, getPromptFormat(filePath) ?? "toml"),
+        "utf-8",
+      );
+      // Snapshots are kept as TOML whatever the file's format
+      await this.promptHistory.record(
+        prompt.meta.type,
+        prompt.meta.id,
+        TOML.stringify(data),
+        "save",
+      );
     } catch (error) {
       this.logger.error(`Failed to write prompt to file:`, error);
       throw new Error(`Failed to write prompt to file: ${formatError(error)}`);
@@ -254,15 +885,27 @@ export class PromptManager {
   }
 
   /**
-   * Delete a prompt from the store
+   * Move a prompt from the store to the trash
    */
-  async deletePrompt(prompt: Prompt): Promise<void> {
-    const promptDir = path.join(this.getPromptDir(), prompt.meta.type);
-    const filepath = path.join(promptDir, `${prompt.meta.id}.toml`);
+  async deletePrompt(prompt: Prompt): Promise<TrashEntry> {
+    const existing = await this.locatePrompt(prompt);
+    this.assertWritable(existing?.source);
+    const filepath =
+      existing?.path ??
+      path.join(
+        this.getPromptDir(),
+        prompt.meta.type,
+        getPromptFileName(prompt.meta.id, this.getNewPromptFormat()),
+      );
 
     try {
-      await fs.unlink(filepath);
-      this.logger.info(`Deleted prompt: ${prompt.meta.name}`);
+      await this.promptHistory.recordFile(filepath, prompt.meta.type, "delete");
+      const entry = await this.moveToTrash(filepath, {
+        type: prompt.meta.type,
+        name: prompt.meta.name,
+      });
+      this.logger.info(`Moved prompt to trash: ${prompt.meta.name}`);
+      return entry;
     } catch (error) {
       this.logger.error("Failed to delete prompt:", error);
       throw error;
@@ -270,142 +913,686 @@ export class PromptManager {
   }
 
   /**
-   * Import rules from IDE into a temporary prompt
+   * Prompt files in the trash, most recently deleted first
+   */
+  async listTrash(type?: PromptType): Promise<TrashEntry[]> {
+    const trashDir = this.getTrashDir();
+    let files: string[];
+    try {
+      files = await fs.readdir(trashDir);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: TrashEntry[] = [];
+    const isEntry = (file: string) =>
+      file.endsWith(".json") && isPromptFile(file.slice(0, -".json".length));
+    for (const file of files.filter(isEntry)) {
+      const metaPath = path.join(trashDir, file);
+      try {
+        const meta = TrashEntryMetaSchema.parse(
+          JSON.parse(await fs.readFile(metaPath, "utf-8")),
+        );
+        if (!type || meta.type === type) {
+          entries.push({ ...meta, path: metaPath.slice(0, -".json".length) });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to read trash entry ${metaPath}:`, error);
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Move a prompt file from the trash back to where it was deleted from
+   */
+  async restoreFromTrash(entry: TrashEntry): Promise<string> {
+    if (await this.fileExists(entry.originalPath)) {
+      throw new Error(
+        `Cannot restore "${entry.name}": ${entry.originalPath} already exists`,
+      );
+    }
+    await fs.mkdir(path.dirname(entry.originalPath), { recursive: true });
+    await fs.copyFile(entry.path, entry.originalPath);
+    await this.purgeFromTrash(entry);
+    this.logger.info(`Restored ${entry.originalPath} from trash`);
+    return entry.originalPath;
+  }
+
+  /**
+   * Permanently delete a prompt file from the trash
+   */
+  async purgeFromTrash(entry: TrashEntry): Promise<void> {
+    await fs.rm(entry.path, { force: true });
+    await fs.rm(`${entry.path}.json`, { force: true });
+  }
+
+  private getTrashDir(): string {
+    return path.join(this.getPromptDir(), this.TRASH_DIR);
+  }
+
+  /**
+   * Move a file to the trash, recording where it came from
+   */
+  private async moveToTrash(
+    filePath: string,
+    { type, name }: Pick<TrashEntryMeta, "type" | "name">,
+  ): Promise<TrashEntry> {
+    const trashDir = this.getTrashDir();
+    await fs.mkdir(trashDir, { recursive: true });
+
+    const deletedAt = new Date();
+    const trashPath = path.join(
+      trashDir,
+      `${deletedAt.getTime()}-${path.basename(filePath)}`,
+    );
+    const meta: TrashEntryMeta = {
+      originalPath: filePath,
+      type,
+      name,
+      deletedAt: deletedAt.toISOString(),
+    };
+    // Copy instead of rename, the workspace library may be on another device
+    await fs.copyFile(filePath, trashPath);
+    await fs.writeFile(
+      `${trashPath}.json`,
+      `${JSON.stringify(meta, null, 2)}\n`,
+      "utf-8",
+    );
+    await fs.unlink(filePath);
+    return { ...meta, path: trashPath };
+  }
+
+  /**
+   * Write a snapshot back to its prompt's file, recreating deleted prompts in
+   * the library new prompts are saved to
+   * @returns the restored file
+   */
+  async restoreSnapshot(snapshot: PromptSnapshot): Promise<string> {
+    const content = await this.promptHistory.read(snapshot);
+    const existing = (await this.readPromptFiles(snapshot.type)).find(
+      (result) =>
+        (result.prompt?.meta.id ?? getPromptFileId(result.path)) ===
+        snapshot.promptId,
+    );
+    this.assertWritable(existing?.source);
+
+    const filePath =
+      existing?.path ??
+      path.join(
+        this.getPromptDir(),
+        snapshot.type,
+        getPromptFileName(snapshot.promptId, this.getNewPromptFormat()),
+      );
+    await this.promptHistory.recordBaseline(filePath, snapshot.type);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      convertPromptText(content, "toml", getPromptFormat(filePath)!),
+      "utf-8",
+    );
+    await this.promptHistory.record(
+      snapshot.type,
+      snapshot.promptId,
+      content,
+      "restore",
+    );
+    this.logger.info(
+      `Restored ${snapshot.promptId} from ${snapshot.createdAt.toISOString()}`,
+    );
+    return filePath;
+  }
+
+  /**
+   * Import rules from IDE into temporary prompts, one per rule file for
+   * targets that hold several. Rules written from library prompts are
+   * skipped, importing them would overwrite the prompts with their resolved
+   * content
    */
   async importFromIdeRulesUnsaved(
     type: PromptType,
-  ): Promise<Prompt | undefined> {
+    source?: ResolvedRulesTarget,
+  ): Promise<Prompt[]> {
     try {
       const workspaceRoot =
-        type === "project"
-          ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-          : undefined;
+        type === "project" ? this.folderTracker.getActiveRoot() : undefined;
 
-      const rulesPath = await this.environmentDetector.getRulesPath(
-        type,
-        workspaceRoot,
-      );
+      const { target, rulesPath } =
+        source ??
+        (await this.environmentDetector.getPrimaryTarget(type, workspaceRoot));
 
-      const content = await fs.readFile(rulesPath, "utf-8");
-      const ide = await this.environmentDetector.detect();
-
-      // Parse metadata from content if available
-      let title = "Untitled";
-      let version = "0.0.1";
-      let author = "User";
-
-      const timestamp = new Date()
-        .toISOString()
-        .replace(/[:.]/g, "")
-        .replace(/[TZ]/g, "_")
-        .slice(0, -4);
-      const sanitizedTitle = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, "_")
-        .replace(/^_+|_+$/g, "");
-      const promptId = `${sanitizedTitle}_${timestamp}`;
+      if (target.readPrompts) {
+        const known = await this.loadPromptIds(type, workspaceRoot);
+        return (await target.readPrompts(rulesPath, type)).filter(
+          (prompt) => !known.has(prompt.meta.id),
+        );
+      }
 
-      return {
-        meta: {
+      const rules = await target.read(rulesPath);
+      if (hasManagedBlocks(rules)) {
+        return await this.importManagedRules(
           type,
-          id: promptId,
-          name: title,
-          description: `${ide} ${type} Rules - Created ${new Date().toLocaleString()}`,
-          author,
-          version,
-          date: new Date().toISOString(),
-          license: "MIT",
-        },
-        content,
-      };
+          target.label,
+          rules,
+          workspaceRoot,
+        );
+      }
+
+      return [this.createImportedPrompt(type, target.label, rules)];
     } catch (error) {
       this.logger.error(`Failed to import ${type} rules from IDE:`, error);
       vscode.window.showErrorMessage(
         `Failed to import ${type} rules: ${formatError(error)}`,
       );
-      return undefined;
+      return [];
     }
   }
 
   /**
-   * Sync a global prompt to the current IDE's global rules location
+   * Import the hand-written part of a managed rules file, plus any blocks of
+   * prompts missing from the library
    */
-  async syncGlobalPrompt(prompt: Prompt): Promise<void> {
+  private async importManagedRules(
+    type: PromptType,
+    label: string,
+    rules: string,
+    workspaceRoot?: string,
+  ): Promise<Prompt[]> {
+    const known = await this.loadPromptIds(type, workspaceRoot);
+
+    const prompts: Prompt[] = [];
+    const unmanaged = getUnmanagedContent(rules);
+    if (unmanaged) {
+      prompts.push(this.createImportedPrompt(type, label, unmanaged));
+    }
+    for (const block of parseManagedBlocks(rules)) {
+      if (!known.has(block.id)) {
+        prompts.push(
+          this.createImportedPrompt(type, label, block.content, block.id),
+        );
+      }
+    }
+    return prompts;
+  }
+
+  private async loadPromptIds(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<Set<string>> {
+    return new Set(
+      (await this.loadPrompts(type, workspaceRoot)).flatMap((p) =>
+        p.prompt ? [p.prompt.meta.id] : [],
+      ),
+    );
+  }
+
+  private createImportedPrompt(
+    type: PromptType,
+    label: string,
+    content: string,
+    id?: string,
+  ): Prompt {
+    // Parse metadata from content if available
+    let title = id ?? "Untitled";
+    let version = "0.0.1";
+    let author = "User";
+
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[:.]/g, "")
+      .replace(/[TZ]/g, "_")
+      .slice(0, -4);
+    const sanitizedTitle = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    const promptId = id ?? `${sanitizedTitle}_${timestamp}`;
+
+    return {
+      meta: {
+        type,
+        id: promptId,
+        name: title,
+        description: `${label} ${type} Rules - Created ${new Date().toLocaleString()}`,
+        author,
+        version,
+        date: new Date().toISOString(),
+        license: "MIT",
+      },
+      content,
+    };
+  }
+
+  /**
+   * Sync a global prompt to every applicable global rules target
+   */
+  async syncGlobalPrompt(prompt: Prompt): Promise<RulesSyncResult[]> {
     if (prompt.meta.type !== "global") {
       throw new Error("Can only sync global prompts");
     }
 
-    // Get the IDE rules file path
-    const ideRulesPath = await this.environmentDetector.getRulesPath("global");
-    if (!ideRulesPath) {
-      throw new Error("No IDE rules file found");
+    return this.syncPromptsToTargets([prompt], "global");
+  }
+
+  /**
+   * Sync a project prompt to every enabled project rules target
+   */
+  async syncProjectPrompt(
+    prompt: Prompt,
+    workspaceRoot: string,
+  ): Promise<RulesSyncResult[]> {
+    return this.syncPromptsToTargets([prompt], "project", workspaceRoot);
+  }
+
+  /**
+   * What activating a prompt would replace in each rules target it is synced
+   * to, leaving out targets where no hand-written content would be lost
+   */
+  async getOverwritePreviews(
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<RulesOverwritePreview[]> {
+    const type = prompt.meta.type;
+    const targets = await this.environmentDetector.getTargets(
+      type,
+      workspaceRoot,
+    );
+    const resolved = await this.resolvePrompt(prompt, workspaceRoot);
+    const previews: RulesOverwritePreview[] = [];
+    for (const target of targets) {
+      const preview = await this.getTargetOverwritePreview(
+        target,
+        resolved,
+        workspaceRoot,
+      );
+      if (preview) {
+        previews.push(preview);
+      }
+    }
+    return previews;
+  }
+
+  private async getTargetOverwritePreview(
+    { target, rulesPath }: ResolvedRulesTarget,
+    resolved: Prompt,
+    workspaceRoot?: string,
+  ): Promise<RulesOverwritePreview | undefined> {
+    const type = resolved.meta.type;
+    // Targets with a file per prompt leave hand-written rules files alone
+    if (target.writePrompts || !(await this.fileExists(rulesPath))) {
+      return undefined;
+    }
+
+    const current = await target.read(rulesPath);
+    const mode = this.getSyncMode(workspaceRoot);
+    const next =
+      mode === "managed"
+        ? renderManagedBlocks(current, [
+            { id: resolved.meta.id, content: resolved.content },
+          ])
+        : resolved.content;
+
+    const written =
+      this.activePromptStore.get(type, workspaceRoot) !== undefined &&
+      !this.activePromptStore.isDrifted(type, current, workspaceRoot);
+    if (!current.trim() || current === next || written) {
+      return undefined;
+    }
+    // Managed mode keeps everything outside the blocks
+    if (mode === "managed" && !hasManagedBlocks(current)) {
+      return undefined;
+    }
+    if (await this.matchesLibraryPrompt(type, current, workspaceRoot)) {
+      return undefined;
+    }
+    return { target, rulesPath, current, next };
+  }
+
+  /**
+   * Keep a timestamped copy of rules content about to be overwritten
+   * @returns the backup file
+   */
+  async backupRules(
+    { target, rulesPath }: ResolvedRulesTarget,
+    content: string,
+  ): Promise<string> {
+    const backupDir = this.expandPath(this.BACKUP_DIR);
+    await fs.mkdir(backupDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const backupPath = path.join(
+      backupDir,
+      `${stamp}-${target.id}-${path.basename(rulesPath)}`,
+    );
+    await fs.writeFile(backupPath, content, "utf-8");
+    this.logger.info(`Backed up ${target.label} rules to ${backupPath}`);
+    return backupPath;
+  }
+
+  /**
+   * Every prompt file of the libraries, those of all workspace folders
+   * included
+   */
+  async listPromptFiles(): Promise<string[]> {
+    const dirs = this.getAllLibraryRoots().flatMap((root) =>
+      root.workspace
+        ? [root.path]
+        : [path.join(root.path, "global"), path.join(root.path, "project")],
+    );
+    const files: string[] = [];
+    for (const dir of dirs) {
+      try {
+        for (const file of await fs.readdir(dir)) {
+          if (isPromptFile(file)) {
+            files.push(path.join(dir, file));
+          }
+        }
+      } catch (error) {
+        if ((error as { code?: string }).code !== "ENOENT") {
+          this.logger.error(`Failed to list prompts in ${dir}:`, error);
+        }
+      }
     }
+    return files;
+  }
 
+  /**
+   * Rewrite a prompt file in the current format, backing up the original
+   */
+  async migratePromptFile(filePath: string): Promise<PromptMigrationResult> {
     try {
-      await this.documentWatcher.trackSyncOperation(ideRulesPath, async () => {
-        await fs.writeFile(ideRulesPath, prompt.content, "utf-8");
-        this.logger.info(
-          `Synced prompt "${prompt.meta.name}" to IDE rules file: ${ideRulesPath}`,
-        );
-      });
+      const original = await fs.readFile(filePath, "utf-8");
+      const data = parsePromptText(original, getPromptFormat(filePath)!);
+      if (!needsMigration(data)) {
+        return { path: filePath, status: "current" };
+      }
+      const fromVersion = getSchemaVersion(data);
+      if (this.getLibraryRoot(filePath)?.readOnly) {
+        return { path: filePath, status: "read-only", fromVersion };
+      }
+
+      const { data: migrated, applied } = migratePromptData(data);
+      const prompt = PromptSchema.parse(migrated);
+      const backupDir = path.join(
+        this.expandPath(this.BACKUP_DIR),
+        "migrations",
+      );
+      await fs.mkdir(backupDir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const backupPath = path.join(
+        backupDir,
+        `${stamp}-${path.basename(path.dirname(filePath))}-${path.basename(filePath)}`,
+      );
+      await fs.writeFile(backupPath, original, "utf-8");
+      await this.writePromptToFile(prompt, filePath);
+      this.logger.info(
+        `Migrated ${filePath} from format version ${fromVersion}, original backed up to ${backupPath}`,
+      );
+      return {
+        path: filePath,
+        status: "migrated",
+        fromVersion,
+        changes: applied,
+        backupPath,
+      };
     } catch (error) {
-      this.logger.error("Failed to sync prompt to IDE rules:", error);
-      throw error;
+      this.logger.error(`Failed to migrate prompt file ${filePath}:`, error);
+      return { path: filePath, status: "failed", error: formatError(error) };
     }
   }
 
   /**
-   * Sync a project prompt to the current IDE's project rules location
+   * Whether rules content is exactly one of the library's prompts, so
+   * overwriting it loses nothing
    */
-  async syncProjectPrompt(
-    prompt: Prompt,
+  private async matchesLibraryPrompt(
+    type: PromptType,
+    content: string,
+    workspaceRoot?: string,
+  ): Promise<boolean> {
+    const rules = stripManagedMarkers(content).trim();
+    return (await this.loadPrompts(type, workspaceRoot)).some(
+      ({ prompt }) => prompt?.content.trim() === rules,
+    );
+  }
+
+  /**
+   * Sync project prompts to the given targets rather than the configured
+   * ones, stacking them as managed blocks when there are several
+   */
+  async syncProjectPromptsTo(
+    prompts: Prompt[],
     workspaceRoot: string,
-  ): Promise<void> {
-    // Get the IDE rules file path
-    const ideRulesPath = await this.environmentDetector.getRulesPath(
+    targets: ResolvedRulesTarget[],
+  ): Promise<RulesSyncResult[]> {
+    return this.syncPromptsToTargets(
+      prompts,
       "project",
       workspaceRoot,
+      prompts.length > 1 ? "managed" : this.getSyncMode(workspaceRoot),
+      targets,
+    );
+  }
+
+  /**
+   * Add a prompt to the managed blocks already in a scope's rules, replacing
+   * its previous block if it is stacked already
+   */
+  async stackPrompt(
+    type: PromptType,
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<RulesSyncResult[]> {
+    const stacked = (await this.getActivePrompts(type, workspaceRoot)).filter(
+      (p) => p.meta.id !== prompt.meta.id,
     );
-    this.logger.info({ ideRulesPath });
+    return this.syncPromptsToTargets(
+      [...stacked, prompt],
+      type,
+      workspaceRoot,
+      "managed",
+    );
+  }
+
+  /**
+   * Swap a stacked prompt for another one, keeping its position
+   */
+  async replaceStackedPrompt(
+    type: PromptType,
+    promptId: string,
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<RulesSyncResult[]> {
+    const stacked = (await this.getActivePrompts(type, workspaceRoot)).map(
+      (p) => (p.meta.id === promptId ? prompt : p),
+    );
+    return this.syncPromptsToTargets(stacked, type, workspaceRoot, "managed");
+  }
+
+  /**
+   * Rewrite a scope's rules from the current library content of its active
+   * prompts
+   */
+  async resyncActivePrompts(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<RulesSyncResult[]> {
+    const prompts = await this.getActivePrompts(type, workspaceRoot);
+    if (prompts.length === 0) {
+      return [];
+    }
+    const mode = this.activePromptStore.get(type, workspaceRoot)?.blocks
+      ? "managed"
+      : "overwrite";
+    return this.syncPromptsToTargets(prompts, type, workspaceRoot, mode);
+  }
 
-    // Skip if it's a special path (like cursor://settings)
-    if (ideRulesPath === "cursor://settings") {
+  /**
+   * Restore a rules target to the content last written to it, undoing
+   * external edits
+   */
+  async restoreActiveRules(
+    source: ResolvedRulesTarget,
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<void> {
+    const active = this.activePromptStore.get(type, workspaceRoot);
+    if (!active) {
       return;
     }
 
-    try {
-      await this.documentWatcher.trackSyncOperation(ideRulesPath, async () => {
-        await fs.writeFile(ideRulesPath, prompt.content, "utf-8");
-        this.logger.info(
-          `Synced prompt "${prompt.meta.name}" to IDE rules file: ${ideRulesPath}`,
-        );
-      });
-    } catch (error) {
-      this.logger.error("Failed to sync prompt to IDE rules:", error);
-      throw error;
+    const library = await this.getActivePrompts(type, workspaceRoot);
+    const written = (active.blocks ?? [active]).flatMap((block) => {
+      const prompt = library.find((p) => p.meta.id === block.promptId);
+      return prompt ? [{ ...prompt, content: block.content }] : [];
+    });
+    await this.writePromptsToTarget(
+      source,
+      written,
+      active.blocks ? "managed" : "overwrite",
+    );
+  }
+
+  /**
+   * Library prompts currently active in a scope, in rules order
+   */
+  private async getActivePrompts(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<Prompt[]> {
+    const active = this.activePromptStore.get(type, workspaceRoot);
+    if (!active) {
+      return [];
     }
+
+    const prompts = await this.loadPrompts(type, workspaceRoot);
+    return (active.blocks ?? [active]).flatMap(({ promptId }) => {
+      const prompt = prompts.find(
+        (p) => p.prompt?.meta.id === promptId,
+      )?.prompt;
+      return prompt ? [prompt] : [];
+    });
+  }
+
+  getSyncMode(workspaceRoot?: string): SyncMode {
+    return getConfig(workspaceRoot).get<SyncMode>("syncMode", "overwrite");
   }
 
   /**
-   * Copy prompt content to clipboard and show guidance for Cursor settings
+   * Write prompts to each target, collecting a result per target instead of
+   * stopping at the first failure
    */
-  async copyToClipboardForCursor(prompt: Prompt): Promise<void> {
-    try {
-      await vscode.env.clipboard.writeText(prompt.content);
-      const action = await vscode.window.showInformationMessage(
-        "Rules copied to clipboard. Click 'Open Settings' to paste them in Custom Instructions.",
-        "Open Settings",
+  private async syncPromptsToTargets(
+    prompts: Prompt[],
+    type: PromptType,
+    workspaceRoot?: string,
+    mode = this.getSyncMode(workspaceRoot),
+    targets?: ResolvedRulesTarget[],
+  ): Promise<RulesSyncResult[]> {
+    targets ??= await this.environmentDetector.getTargets(type, workspaceRoot);
+    if (targets.length === 0) {
+      throw new Error(`No ${type} rules target found`);
+    }
+
+    for (const prompt of prompts) {
+      // Serialized like save snapshots so an unchanged prompt isn't recorded twice
+      await this.promptHistory.record(
+        prompt.meta.type,
+        prompt.meta.id,
+        TOML.stringify({ ...prompt, schemaVersion: CURRENT_SCHEMA_VERSION }),
+        "sync",
       );
-      if (action === "Open Settings") {
-        await openCursorSettings();
+    }
+
+    // Targets receive the composed content, never the raw references
+    const resolved = await Promise.all(
+      prompts.map((prompt) => this.resolvePrompt(prompt, workspaceRoot)),
+    );
+    const results: RulesSyncResult[] = [];
+    for (const { target, rulesPath } of targets) {
+      try {
+        await this.writePromptsToTarget({ target, rulesPath }, resolved, mode);
+        results.push({ target, rulesPath });
+      } catch (error) {
+        this.logger.error(
+          `Failed to sync prompt to ${target.label} rules:`,
+          error,
+        );
+        results.push({ target, rulesPath, error });
+      }
+    }
+
+    if (results.some((result) => result.error === undefined)) {
+      if (mode === "managed") {
+        await this.activePromptStore.setBlocks(type, resolved, workspaceRoot);
+      } else {
+        await this.activePromptStore.set(
+          type,
+          resolved[0],
+          undefined,
+          workspaceRoot,
+        );
       }
-    } catch (error) {
-      this.logger.error("Failed to copy rules to clipboard:", error);
-      throw error;
     }
+    return results;
+  }
+
+  /**
+   * Write prompts to a single rules target without touching the others
+   */
+  private async writePromptsToTarget(
+    { target, rulesPath }: ResolvedRulesTarget,
+    prompts: Prompt[],
+    mode: SyncMode,
+  ): Promise<void> {
+    await this.documentWatcher.trackSyncOperation(rulesPath, async () => {
+      if (target.writePrompts) {
+        await target.writePrompts(rulesPath, prompts);
+      } else if (mode === "managed") {
+        const existing = await target.read(rulesPath);
+        await target.write(
+          rulesPath,
+          renderManagedBlocks(
+            existing,
+            prompts.map((prompt) => ({
+              id: prompt.meta.id,
+              content: prompt.content,
+            })),
+          ),
+        );
+      } else {
+        await target.write(rulesPath, prompts[0]?.content ?? "");
+      }
+      this.logger.info(
+        `Synced ${prompts.map((p) => `"${p.meta.name}"`).join(", ")} to ${target.label} rules: ${rulesPath}`,
+      );
+    });
+  }
+
+  /**
+   * Replace a prompt's content in place, bumping its version and date
+   */
+  async updatePromptContent(prompt: Prompt, content: string): Promise<Prompt> {
+    const updated: Prompt = {
+      ...prompt,
+      meta: {
+        ...prompt.meta,
+        version: bumpPatchVersion(prompt.meta.version),
+        date: new Date().toISOString(),
+      },
+      content,
+    };
+    await this.savePrompt(updated);
+    this.logger.info(
+      `Updated prompt "${updated.meta.name}" to version ${updated.meta.version}`,
+    );
+    return updated;
   }
 
   dispose() {
     this.pendingImportItem?.dispose();
+    this.outdatedEmitter.dispose();
   }
 }
@@ -0,0 +1,152 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { PromptMigrationResult } from "../types/migration";
+import { CURRENT_SCHEMA_VERSION } from "../utils/promptMigration";
+import { VscodeLogger } from "../vscode-logger";
+import { PromptManager } from "./promptManager";
+
+/**
+ * Offers to rewrite prompt files saved in an older format, which loading
+ * only upgrades in memory
+ */
+@Service()
+export class PromptMigrator {
+  private disposables: vscode.Disposable[] = [];
+  /** Files already offered this session, so declining isn't asked again */
+  private offered = new Set<string>();
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  /**
+   * Start offering migration when outdated files are loaded
+   */
+  start() {
+    this.disposables.push(
+      this.promptManager.onDidLoadOutdatedPrompts((paths) =>
+        this.offerMigration(paths),
+      ),
+    );
+  }
+
+  private async offerMigration(paths: string[]) {
+    const fresh = paths.filter((filePath) => !this.offered.has(filePath));
+    if (fresh.length === 0) {
+      return;
+    }
+    fresh.forEach((filePath) => this.offered.add(filePath));
+
+    const answer = await vscode.window.showInformationMessage(
+      `${fresh.length} prompt file${fresh.length === 1 ? " uses" : "s use"} an older format. Migrate to the current format? The originals are backed up first.`,
+      "Migrate",
+      "Not Now",
+    );
+    if (answer === "Migrate") {
+      await this.migrate(fresh, false);
+    }
+  }
+
+  /**
+   * Migrate every prompt file of the libraries and report each file's result
+   */
+  async migrateAll() {
+    try {
+      const files = await this.promptManager.listPromptFiles();
+      if (files.length === 0) {
+        vscode.window.showInformationMessage("No prompt files to migrate");
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `Migrate ${files.length} prompt file${files.length === 1 ? "" : "s"} to format version ${CURRENT_SCHEMA_VERSION}?`,
+        {
+          modal: true,
+          detail:
+            "Files already in the current format are left untouched, the others are backed up before being rewritten.",
+        },
+        "Migrate",
+      );
+      if (answer === "Migrate") {
+        await this.migrate(files, true);
+      }
+    } catch (error) {
+      this.logger.error("Failed to migrate prompts:", error);
+      vscode.window.showErrorMessage(
+        `Failed to migrate prompts: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Migrate the files one by one, a failure doesn't stop the others
+   * @param alwaysReport open the report even if every file succeeded
+   */
+  private async migrate(paths: string[], alwaysReport: boolean) {
+    const results: PromptMigrationResult[] = [];
+    for (const filePath of paths) {
+      results.push(await this.promptManager.migratePromptFile(filePath));
+    }
+
+    const count = (status: PromptMigrationResult["status"]) =>
+      results.filter((result) => result.status === status).length;
+    const summary = [
+      `${count("migrated")} migrated`,
+      `${count("current")} already current`,
+      `${count("read-only")} read-only`,
+      `${count("failed")} failed`,
+    ].join(", ");
+
+    if (count("failed") > 0) {
+      vscode.window.showWarningMessage(`Prompt migration: ${summary}`);
+    } else {
+      vscode.window.showInformationMessage(`Prompt migration: ${summary}`);
+    }
+    if (alwaysReport || count("failed") > 0) {
+      await this.showReport(results, summary);
+    }
+  }
+
+  private async showReport(results: PromptMigrationResult[], summary: string) {
+    const lines = results.map((result) => {
+      switch (result.status) {
+        case "migrated":
+          return [
+            `- **Migrated** \`${result.path}\` from version ${result.fromVersion}, backup at \`${result.backupPath}\``,
+            ...(result.changes ?? []).map((change) => `  - ${change}`),
+          ].join("\n");
+        case "current":
+          return `- Up to date: \`${result.path}\``;
+        case "read-only":
+          return `- **Skipped** \`${result.path}\`: version ${result.fromVersion} in a read-only library`;
+        case "failed":
+          return `- **Failed** \`${result.path}\`: ${result.error}`;
+      }
+    });
+    const doc = await vscode.workspace.openTextDocument({
+      language: "markdown",
+      content: [
+        `# Prompt Migration to Version ${CURRENT_SCHEMA_VERSION}`,
+        "",
+        summary,
+        "",
+        ...lines,
+        "",
+      ].join("\n"),
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
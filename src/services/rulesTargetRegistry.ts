@@ -0,0 +1,43 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { BUILTIN_RULES_TARGETS } from "../targets/builtinTargets";
+import { RulesTarget } from "../types/target";
+
+@Service()
+export class RulesTargetRegistry {
+  private readonly targets = new Map<string, RulesTarget>();
+
+  constructor() {
+    BUILTIN_RULES_TARGETS.forEach((target) => this.register(target));
+  }
+
+  /**
+   * Register a rules target, replacing any target with the same id
+   */
+  register(target: RulesTarget): vscode.Disposable {
+    this.targets.set(target.id, target);
+    return new vscode.Disposable(() => {
+      if (this.targets.get(target.id) === target) {
+        this.targets.delete(target.id);
+      }
+    });
+  }
+
+  get(id: string): RulesTarget | undefined {
+    return this.targets.get(id);
+  }
+
+  /**
+   * All registered targets, in registration order
+   */
+  getAll(): RulesTarget[] {
+    return [...this.targets.values()];
+  }
+}
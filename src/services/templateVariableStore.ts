@@ -0,0 +1,207 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { TemplateValues } from "../utils/templateVariables";
+import { VscodeLogger } from "../vscode-logger";
+import { WorkspaceFolderTracker } from "./workspaceFolderTracker";
+
+const STATE_KEY = "oh-my-prompt.variables";
+
+/** Languages reported by `{{languages}}`, keyed by file extension */
+const LANGUAGES: Record<string, string> = {
+  ".ts": "TypeScript",
+  ".tsx": "TypeScript",
+  ".js": "JavaScript",
+  ".jsx": "JavaScript",
+  ".py": "Python",
+  ".go": "Go",
+  ".rs": "Rust",
+  ".java": "Java",
+  ".kt": "Kotlin",
+  ".swift": "Swift",
+  ".rb": "Ruby",
+  ".php": "PHP",
+  ".cs": "C#",
+  ".cpp": "C++",
+  ".c": "C",
+  ".dart": "Dart",
+  ".vue": "Vue",
+  ".svelte": "Svelte",
+};
+
+const LOCKFILES: Array<[string, string]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+/**
+ * Values for `{{variable}}` placeholders: built-ins derived from the
+ * workspace, and values entered by the user, remembered per workspace folder
+ */
+@Service()
+export class TemplateVariableStore {
+  private extensionContext?: vscode.ExtensionContext;
+
+  constructor(
+    private readonly logger: VscodeLogger,
+    private readonly folderTracker: WorkspaceFolderTracker,
+  ) {}
+
+  /**
+   * Initialize the store with extension context
+   */
+  initialize(context: vscode.ExtensionContext) {
+    this.extensionContext = context;
+  }
+
+  /**
+   * Resolve values for a prompt: remembered values win over built-ins, which
+   * win over the prompt's `[variables]` defaults
+   */
+  async getValues(
+    defaults: TemplateValues = {},
+    workspaceRoot?: string,
+  ): Promise<TemplateValues> {
+    return {
+      ...defaults,
+      ...(await this.getBuiltins(workspaceRoot)),
+      ...this.getRemembered(workspaceRoot),
+    };
+  }
+
+  getRemembered(workspaceRoot?: string): TemplateValues {
+    return (
+      this.extensionContext?.workspaceState.get<TemplateValues>(
+        this.getStateKey(workspaceRoot),
+      ) ?? {}
+    );
+  }
+
+  async remember(values: TemplateValues, workspaceRoot?: string) {
+    await this.extensionContext?.workspaceState.update(
+      this.getStateKey(workspaceRoot),
+      { ...this.getRemembered(workspaceRoot), ...values },
+    );
+  }
+
+  private getStateKey(workspaceRoot?: string): string {
+    return workspaceRoot && this.folderTracker.isMultiRoot()
+      ? `${STATE_KEY}:${vscode.Uri.file(workspaceRoot).toString()}`
+      : STATE_KEY;
+  }
+
+  /**
+   * Built-in values: `workspaceName`, `languages`, `gitBranch`,
+   * `packageManager` and `scripts.<name>` for each `package.json` script
+   */
+  async getBuiltins(workspaceRoot?: string): Promise<TemplateValues> {
+    if (!workspaceRoot) {
+      return {};
+    }
+
+    const values: TemplateValues = {
+      workspaceName: path.basename(workspaceRoot),
+    };
+    const [languages, gitBranch, packageJson, packageManager] =
+      await Promise.all([
+        this.detectLanguages(workspaceRoot),
+        this.readGitBranch(workspaceRoot),
+        this.readPackageJson(workspaceRoot),
+        this.detectPackageManager(workspaceRoot),
+      ]);
+
+    if (languages.length > 0) {
+      values.languages = languages.join(", ");
+    }
+    if (gitBranch) {
+      values.gitBranch = gitBranch;
+    }
+    const manager =
+      packageJson?.packageManager?.split("@")[0] ?? packageManager;
+    if (manager) {
+      values.packageManager = manager;
+    }
+    for (const [name, script] of Object.entries(packageJson?.scripts ?? {})) {
+      values[`scripts.${name}`] = script;
+    }
+    return values;
+  }
+
+  /**
+   * Languages of the workspace files, most used first
+   */
+  private async detectLanguages(workspaceRoot: string): Promise<string[]> {
+    try {
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(workspaceRoot, "**/*"),
+        "**/{node_modules,.git,dist,out,build,vendor}/**",
+        2000,
+      );
+      const counts = new Map<string, number>();
+      for (const file of files) {
+        const language = LANGUAGES[path.extname(file.fsPath).toLowerCase()];
+        if (language) {
+          counts.set(language, (counts.get(language) ?? 0) + 1);
+        }
+      }
+      return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([language]) => language);
+    } catch (error) {
+      this.logger.error("Failed to detect workspace languages:", error);
+      return [];
+    }
+  }
+
+  private async readGitBranch(
+    workspaceRoot: string,
+  ): Promise<string | undefined> {
+    try {
+      const head = await fs.readFile(
+        path.join(workspaceRoot, ".git", "HEAD"),
+        "utf-8",
+      );
+      return head.match(/^ref: refs\/heads\/(.+)$/m)?.[1].trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readPackageJson(
+    workspaceRoot: string,
+  ): Promise<
+    { packageManager?: string; scripts?: Record<string, string> } | undefined
+  > {
+    try {
+      return JSON.parse(
+        await fs.readFile(path.join(workspaceRoot, "package.json"), "utf-8"),
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async detectPackageManager(
+    workspaceRoot: string,
+  ): Promise<string | undefined> {
+    for (const [lockfile, manager] of LOCKFILES) {
+      try {
+        await fs.access(path.join(workspaceRoot, lockfile));
+        return manager;
+      } catch {
+        // Try the next lockfile
+      }
+    }
+    return undefined;
+  }
+}
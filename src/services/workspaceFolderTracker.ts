@@ -0,0 +1,128 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { VscodeLogger } from "../vscode-logger";
+
+/**
+ * Tracks which workspace folder project prompts refer to: the folder of the
+ * active editor, or the last one the user worked in
+ */
+@Service()
+export class WorkspaceFolderTracker {
+  private activeFolder?: vscode.WorkspaceFolder;
+  private changeEmitter = new vscode.EventEmitter<
+    vscode.WorkspaceFolder | undefined
+  >();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly logger: VscodeLogger) {
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        const folder = editor
+          ? vscode.workspace.getWorkspaceFolder(editor.document.uri)
+          : undefined;
+        // Editors outside the workspace keep the previous folder
+        if (folder) {
+          this.setActiveFolder(folder);
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(({ removed }) => {
+        if (
+          this.activeFolder &&
+          removed.some(
+            (folder) =>
+              folder.uri.toString() === this.activeFolder!.uri.toString(),
+          )
+        ) {
+          this.setActiveFolder(undefined);
+        }
+      }),
+    );
+
+    const editor = vscode.window.activeTextEditor;
+    this.activeFolder = editor
+      ? vscode.workspace.getWorkspaceFolder(editor.document.uri)
+      : undefined;
+  }
+
+  get onDidChangeActiveFolder(): vscode.Event<
+    vscode.WorkspaceFolder | undefined
+  > {
+    return this.changeEmitter.event;
+  }
+
+  getFolders(): readonly vscode.WorkspaceFolder[] {
+    return vscode.workspace.workspaceFolders ?? [];
+  }
+
+  isMultiRoot(): boolean {
+    return this.getFolders().length > 1;
+  }
+
+  /**
+   * The folder project prompts currently refer to, falling back to the first
+   * one
+   */
+  getActiveFolder(): vscode.WorkspaceFolder | undefined {
+    return this.activeFolder ?? this.getFolders()[0];
+  }
+
+  getActiveRoot(): string | undefined {
+    return this.getActiveFolder()?.uri.fsPath;
+  }
+
+  /**
+   * Get the folder to act on, asking the user when several folders are open
+   * and none was used yet
+   */
+  async resolveRoot(): Promise<string | undefined> {
+    if (this.activeFolder || !this.isMultiRoot()) {
+      return this.getActiveRoot();
+    }
+    return this.pickRoot();
+  }
+
+  /**
+   * Let the user choose the folder project prompts refer to
+   */
+  async pickRoot(): Promise<string | undefined> {
+    const folder = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: "Select the workspace folder for project prompts",
+    });
+    if (folder) {
+      this.setActiveFolder(folder);
+    }
+    return folder?.uri.fsPath;
+  }
+
+  /**
+   * Get the name of the folder a path belongs to
+   */
+  getFolderName(workspaceRoot: string): string {
+    return (
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot))
+        ?.name ?? workspaceRoot
+    );
+  }
+
+  private setActiveFolder(folder: vscode.WorkspaceFolder | undefined) {
+    if (folder?.uri.toString() === this.activeFolder?.uri.toString()) {
+      return;
+    }
+    this.activeFolder = folder;
+    this.logger.info(`Active workspace folder: ${folder?.name ?? "none"}`);
+    this.changeEmitter.fire(this.getActiveFolder());
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as path from "path";
+import { RulesTarget } from "../types/target";
+import { CursorProjectRulesTarget } from "./cursorProjectRulesTarget";
+import { CursorRulesTarget } from "./cursorRulesTarget";
+import { FileRulesTarget } from "./fileRulesTarget";
+
+/**
+ * Rules targets shipped with the extension, in sync priority order
+ */
+export const BUILTIN_RULES_TARGETS: RulesTarget[] = [
+  new FileRulesTarget({
+    id: "windsurf",
+    label: "Windsurf",
+    ide: "windsurf",
+    globalPath: (homeDir) =>
+      path.join(homeDir, ".codeium", "windsurf", "memories", "global_rules.md"),
+    projectPath: (workspaceRoot) => path.join(workspaceRoot, ".windsurfrules"),
+  }),
+  new CursorRulesTarget(),
+  new CursorProjectRulesTarget(),
+  new FileRulesTarget({
+    id: "copilot",
+    label: "GitHub Copilot",
+    extensionIds: ["GitHub.copilot", "GitHub.copilot-chat"],
+    projectPath: (workspaceRoot) =>
+      path.join(workspaceRoot, ".github", "copilot-instructions.md"),
+  }),
+  new FileRulesTarget({
+    id: "claude",
+    label: "Claude",
+    extensionIds: ["anthropic.claude-code"],
+    globalPath: (homeDir) => path.join(homeDir, ".claude", "CLAUDE.md"),
+    projectPath: (workspaceRoot) => path.join(workspaceRoot, "CLAUDE.md"),
+  }),
+  new FileRulesTarget({
+    id: "cline",
+    label: "Cline",
+    extensionIds: ["saoudrizwan.claude-dev"],
+    projectPath: (workspaceRoot) => path.join(workspaceRoot, ".clinerules"),
+  }),
+  new FileRulesTarget({
+    id: "aider",
+    label: "Aider",
+    projectPath: (workspaceRoot) => path.join(workspaceRoot, "CONVENTIONS.md"),
+  }),
+  new FileRulesTarget({
+    id: "agents",
+    label: "AGENTS.md",
+    projectPath: (workspaceRoot) => path.join(workspaceRoot, "AGENTS.md"),
+  }),
+];
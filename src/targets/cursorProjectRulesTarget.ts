@@ -0,0 +1,223 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Prompt, PromptScope, PromptType } from "../types/prompt";
+import { FileRulesTarget } from "./fileRulesTarget";
+
+/** Prefix of the `.mdc` files owned by Oh My Prompt */
+const MANAGED_PREFIX = "omp-";
+const MDC_EXTENSION = ".mdc";
+
+interface MdcRule {
+  fileName: string;
+  description?: string;
+  scope: PromptScope;
+  body: string;
+}
+
+/**
+ * Cursor's `.cursor/rules/` directory, holding one `.mdc` file per rule with
+ * `description`, `globs` and `alwaysApply` frontmatter.
+ */
+export class CursorProjectRulesTarget extends FileRulesTarget {
+  constructor() {
+    super({
+      id: "cursor-rules",
+      label: "Cursor Rules",
+      ide: "cursor",
+      projectPath: (workspaceRoot) =>
+        path.join(workspaceRoot, ".cursor", "rules"),
+    });
+  }
+
+  override getWatchPattern(rulesPath: string): vscode.GlobPattern {
+    return new vscode.RelativePattern(rulesPath, `*${MDC_EXTENSION}`);
+  }
+
+  /**
+   * Read the bodies of the rules Oh My Prompt wrote, hand-written rules of
+   * the directory are not part of the synced prompts
+   */
+  override async read(rulesPath: string): Promise<string> {
+    const rules = await this.readRules(rulesPath);
+    return rules
+      .filter((rule) => rule.fileName.startsWith(MANAGED_PREFIX))
+      .map((rule) => rule.body)
+      .join("\n\n");
+  }
+
+  /**
+   * Write plain content as a single always-applied rule
+   */
+  override async write(rulesPath: string, content: string): Promise<void> {
+    await this.writeRules(rulesPath, [
+      {
+        fileName: `${MANAGED_PREFIX}rules${MDC_EXTENSION}`,
+        scope: {},
+        body: content,
+      },
+    ]);
+  }
+
+  /**
+   * Reveal the rules directory, as there is no single file to open
+   */
+  override async edit(rulesPath: string): Promise<void> {
+    await vscode.commands.executeCommand(
+      "revealInExplorer",
+      vscode.Uri.file(rulesPath),
+    );
+  }
+
+  /**
+   * Emit one `.mdc` file per prompt and prune the managed files of prompts
+   * that are no longer synced
+   */
+  async writePrompts(rulesPath: string, prompts: Prompt[]): Promise<void> {
+    await this.writeRules(
+      rulesPath,
+      prompts.map((prompt) => ({
+        fileName: `${MANAGED_PREFIX}${prompt.meta.id}${MDC_EXTENSION}`,
+        description: prompt.meta.description,
+        scope: prompt.scope ?? {},
+        body: prompt.content,
+      })),
+    );
+  }
+
+  /**
+   * Read every `.mdc` file back as a separate prompt
+   */
+  async readPrompts(rulesPath: string, type: PromptType): Promise<Prompt[]> {
+    const rules = await this.readRules(rulesPath);
+    return rules
+      .filter((rule) => rule.body.trim().length > 0)
+      .map((rule) => {
+        const stem = path.basename(rule.fileName, MDC_EXTENSION);
+        const id = stem.startsWith(MANAGED_PREFIX)
+          ? stem.slice(MANAGED_PREFIX.length)
+          : `cursor_${stem.replace(/[^a-zA-Z0-9_-]+/g, "_")}`;
+        return {
+          meta: {
+            type,
+            id,
+            name: stem,
+            description: rule.description,
+            author: "IDE Import",
+            version: "0.0.1",
+            date: new Date().toISOString(),
+            license: "MIT",
+          },
+          content: rule.body,
+          scope: rule.scope,
+        };
+      });
+  }
+
+  private async readRules(rulesPath: string): Promise<MdcRule[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(rulesPath);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return Promise.all(
+      files
+        .filter((file) => file.endsWith(MDC_EXTENSION))
+        .sort()
+        .map(async (fileName) =>
+          parseMdc(
+            fileName,
+            await fs.readFile(path.join(rulesPath, fileName), "utf-8"),
+          ),
+        ),
+    );
+  }
+
+  private async writeRules(rulesPath: string, rules: MdcRule[]) {
+    await fs.mkdir(rulesPath, { recursive: true });
+
+    const keep = new Set(rules.map((rule) => rule.fileName));
+    const existing = await fs.readdir(rulesPath);
+    await Promise.all(
+      existing
+        .filter(
+          (file) =>
+            file.startsWith(MANAGED_PREFIX) &&
+            file.endsWith(MDC_EXTENSION) &&
+            !keep.has(file),
+        )
+        .map((file) => fs.unlink(path.join(rulesPath, file))),
+    );
+
+    await Promise.all(
+      rules.map((rule) =>
+        fs.writeFile(
+          path.join(rulesPath, rule.fileName),
+          stringifyMdc(rule),
+          "utf-8",
+        ),
+      ),
+    );
+  }
+}
+
+const parseMdc = (fileName: string, text: string): MdcRule => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { fileName, scope: {}, body: text };
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      fields.set(
+        line.slice(0, separator).trim(),
+        line.slice(separator + 1).trim(),
+      );
+    }
+  }
+
+  const globs = fields.get("globs");
+  const alwaysApply = fields.get("alwaysApply");
+  return {
+    fileName,
+    description: fields.get("description") || undefined,
+    scope: {
+      globs: globs
+        ? globs
+            .split(",")
+            .map((glob) => glob.trim().replace(/^["']|["']$/g, ""))
+            .filter(Boolean)
+        : undefined,
+      alwaysApply: alwaysApply ? alwaysApply === "true" : undefined,
+    },
+    body: text.slice(match[0].length),
+  };
+};
+
+const stringifyMdc = ({ description, scope, body }: MdcRule): string => {
+  const globs = scope.globs ?? [];
+  // Rules without globs would never be attached unless applied always
+  const alwaysApply = scope.alwaysApply ?? globs.length === 0;
+  return [
+    "---",
+    `description: ${(description ?? "").replace(/\r?\n/g, " ")}`,
+    `globs: ${globs.join(",")}`,
+    `alwaysApply: ${alwaysApply}`,
+    "---",
+    body,
+  ].join("\n");
+};
@@ -0,0 +1,109 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { existsSync } from "fs";
+import * as path from "path";
+import { Container } from "typedi";
+import * as vscode from "vscode";
+import { PromptType } from "../types/prompt";
+import { RulesTargetContext } from "../types/target";
+import { openCursorSettings } from "../utils/open-cursor-settings";
+import { VscodeLogger } from "../vscode-logger";
+import {
+  getCursorStateDbPath,
+  readCursorUserRules,
+  writeCursorUserRules,
+} from "./cursorUserRulesStore";
+import { FileRulesTarget } from "./fileRulesTarget";
+
+/**
+ * Cursor's legacy project rules in `.cursorrules`, plus its global rules which
+ * live in the user-level settings storage.
+ */
+export class CursorRulesTarget extends FileRulesTarget {
+  constructor() {
+    super({
+      id: "cursor",
+      label: "Cursor",
+      ide: "cursor",
+      globalPath: getCursorStateDbPath,
+      projectPath: (workspaceRoot) => path.join(workspaceRoot, ".cursorrules"),
+    });
+  }
+
+  override async detect(
+    type: PromptType,
+    context: RulesTargetContext,
+  ): Promise<boolean> {
+    if (type === "global") {
+      return super.detect(type, context);
+    }
+    // Cursor now prefers `.cursor/rules/`, so the legacy project file only
+    // applies where it is still in use
+    return super.detect(type, { ...context, ide: "unknown" });
+  }
+
+  override getWatchPattern(rulesPath: string): vscode.GlobPattern | undefined {
+    if (this.isSettingsStore(rulesPath) && !existsSync(rulesPath)) {
+      return undefined;
+    }
+    return super.getWatchPattern(rulesPath);
+  }
+
+  override async read(rulesPath: string): Promise<string> {
+    if (!this.isSettingsStore(rulesPath)) {
+      return super.read(rulesPath);
+    }
+    if (!existsSync(rulesPath)) {
+      return "";
+    }
+    return readCursorUserRules(rulesPath);
+  }
+
+  override async write(rulesPath: string, content: string): Promise<void> {
+    if (!this.isSettingsStore(rulesPath)) {
+      return super.write(rulesPath, content);
+    }
+
+    try {
+      await writeCursorUserRules(rulesPath, content);
+    } catch (error) {
+      this.logger.error("Failed to write Cursor user rules:", error);
+      // Leave pasting the rules into Cursor settings to the user, but still
+      // fail so the prompt isn't recorded as active in Cursor
+      await vscode.env.clipboard.writeText(content);
+      vscode.window
+        .showInformationMessage(
+          "Could not update Cursor settings directly. Rules copied to clipboard, click 'Open Settings' to paste them in Custom Instructions.",
+          "Open Settings",
+        )
+        .then((action) => {
+          if (action === "Open Settings") {
+            openCursorSettings();
+          }
+        });
+      throw new Error(
+        `Rules copied to the clipboard instead: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  override async edit(rulesPath: string): Promise<void> {
+    if (this.isSettingsStore(rulesPath)) {
+      return openCursorSettings();
+    }
+    return super.edit(rulesPath);
+  }
+
+  private get logger(): VscodeLogger {
+    return Container.get(VscodeLogger);
+  }
+
+  private isSettingsStore(rulesPath: string): boolean {
+    return path.basename(rulesPath) === "state.vscdb";
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as fs from "fs/promises";
+import * as path from "path";
+import initSqlJs, { SqlJsStatic } from "sql.js";
+
+/** Key under which Cursor stores the "Rules for AI" user setting */
+export const CURSOR_USER_RULES_KEY = "aicontext.personalContext";
+
+/** Suffix of the backup taken before the storage file is modified */
+export const CURSOR_STATE_BACKUP_SUFFIX = ".oh-my-prompt.bak";
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+const loadSqlJs = () => {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+};
+
+/**
+ * Get the location of Cursor's user-level settings storage
+ */
+export const getCursorStateDbPath = (homeDir: string): string => {
+  const userDir =
+    process.platform === "darwin"
+      ? path.join(homeDir, "Library", "Application Support", "Cursor")
+      : process.platform === "win32"
+        ? path.join(
+            process.env.APPDATA || path.join(homeDir, "AppData", "Roaming"),
+            "Cursor",
+          )
+        : path.join(
+            process.env.XDG_CONFIG_HOME || path.join(homeDir, ".config"),
+            "Cursor",
+          );
+  return path.join(userDir, "User", "globalStorage", "state.vscdb");
+};
+
+/**
+ * Read Cursor's user rules from its settings storage
+ */
+export const readCursorUserRules = async (dbPath: string): Promise<string> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await fs.readFile(dbPath));
+  try {
+    const [result] = db.exec("SELECT value FROM ItemTable WHERE key = ?", [
+      CURSOR_USER_RULES_KEY,
+    ]);
+    const value = result?.values[0]?.[0];
+    if (value instanceof Uint8Array) {
+      return new TextDecoder().decode(value);
+    }
+    return typeof value === "string" ? value : "";
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Whether SQLite has the storage open, i.e. Cursor is running and may hold
+ * changes in its write-ahead log that replacing the file would lose
+ */
+const isCursorStateDbOpen = async (dbPath: string): Promise<boolean> => {
+  for (const suffix of ["-wal", "-shm"]) {
+    try {
+      await fs.access(`${dbPath}${suffix}`);
+      return true;
+    } catch {
+      // Not there, check the next one
+    }
+  }
+  return false;
+};
+
+/**
+ * Write Cursor's user rules to its settings storage, keeping a backup of the
+ * previous storage file next to it
+ * @returns Promise<string> path of the backup
+ * @throws if Cursor has the storage open
+ */
+export const writeCursorUserRules = async (
+  dbPath: string,
+  content: string,
+): Promise<string> => {
+  if (await isCursorStateDbOpen(dbPath)) {
+    throw new Error("Quit Cursor to update the rules in its settings storage");
+  }
+
+  const backupPath = `${dbPath}${CURSOR_STATE_BACKUP_SUFFIX}`;
+  await fs.copyFile(dbPath, backupPath);
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await fs.readFile(dbPath));
+  try {
+    db.run("INSERT OR REPLACE INTO ItemTable (key, value) VALUES (?, ?)", [
+      CURSOR_USER_RULES_KEY,
+      content,
+    ]);
+
+    // Write to a sibling file first so the storage is never left half written
+    const tempPath = `${dbPath}.oh-my-prompt.tmp`;
+    await fs.writeFile(tempPath, db.export());
+    await fs.rename(tempPath, dbPath);
+    return backupPath;
+  } finally {
+    db.close();
+  }
+};
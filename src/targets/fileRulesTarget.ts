@@ -0,0 +1,108 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { PromptType } from "../types/prompt";
+import { IDEType, RulesTarget, RulesTargetContext } from "../types/target";
+
+export interface FileRulesTargetOptions {
+  id: string;
+  label: string;
+  /** IDE that hosts the tool, which makes it apply unconditionally */
+  ide?: IDEType;
+  /** Extensions whose presence means the tool is in use */
+  extensionIds?: string[];
+  globalPath?: (homeDir: string) => string;
+  projectPath?: (workspaceRoot: string) => string;
+}
+
+/**
+ * A rules target backed by a single plain-text file per scope
+ */
+export class FileRulesTarget implements RulesTarget {
+  readonly id: string;
+  readonly label: string;
+  readonly ide?: IDEType;
+
+  constructor(protected readonly options: FileRulesTargetOptions) {
+    this.id = options.id;
+    this.label = options.label;
+    this.ide = options.ide;
+  }
+
+  async detect(
+    type: PromptType,
+    context: RulesTargetContext,
+  ): Promise<boolean> {
+    const rulesPath = this.getRulesPath(type, context);
+    if (!rulesPath) {
+      return false;
+    }
+
+    if (this.ide && context.ide === this.ide) {
+      return true;
+    }
+
+    if (
+      this.options.extensionIds?.some(
+        (id) => vscode.extensions.getExtension(id) !== undefined,
+      )
+    ) {
+      return true;
+    }
+
+    try {
+      await fs.access(rulesPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getRulesPath(
+    type: PromptType,
+    context: RulesTargetContext,
+  ): string | undefined {
+    if (type === "global") {
+      return this.options.globalPath?.(context.homeDir);
+    }
+    if (!context.workspaceRoot) {
+      return undefined;
+    }
+    return this.options.projectPath?.(context.workspaceRoot);
+  }
+
+  getWatchPattern(rulesPath: string): vscode.GlobPattern | undefined {
+    return new vscode.RelativePattern(
+      path.dirname(rulesPath),
+      path.basename(rulesPath),
+    );
+  }
+
+  async read(rulesPath: string): Promise<string> {
+    try {
+      return await fs.readFile(rulesPath, "utf-8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return "";
+      }
+      throw error;
+    }
+  }
+
+  async write(rulesPath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(rulesPath), { recursive: true });
+    await fs.writeFile(rulesPath, content, "utf-8");
+  }
+
+  async edit(rulesPath: string): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument(rulesPath);
+    await vscode.window.showTextDocument(doc);
+  }
+}
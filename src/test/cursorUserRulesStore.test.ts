@@ -0,0 +1,94 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import initSqlJs from "sql.js";
+import {
+  CURSOR_STATE_BACKUP_SUFFIX,
+  CURSOR_USER_RULES_KEY,
+  readCursorUserRules,
+  writeCursorUserRules,
+} from "../targets/cursorUserRulesStore";
+
+/**
+ * Create a fixture copy of Cursor's settings storage
+ */
+const createFixture = async (rules?: string): Promise<string> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(
+    "CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)",
+  );
+  db.run("INSERT INTO ItemTable (key, value) VALUES (?, ?)", [
+    "workbench.colorTheme",
+    "Cursor Dark",
+  ]);
+  if (rules !== undefined) {
+    db.run("INSERT INTO ItemTable (key, value) VALUES (?, ?)", [
+      CURSOR_USER_RULES_KEY,
+      rules,
+    ]);
+  }
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "oh-my-prompt-"));
+  const dbPath = path.join(dir, "state.vscdb");
+  await fs.writeFile(dbPath, db.export());
+  db.close();
+  return dbPath;
+};
+
+suite("Cursor User Rules Store", () => {
+  test("reads existing user rules", async () => {
+    const dbPath = await createFixture("Always answer in English.");
+    assert.strictEqual(
+      await readCursorUserRules(dbPath),
+      "Always answer in English.",
+    );
+  });
+
+  test("reads empty rules when none are set", async () => {
+    const dbPath = await createFixture();
+    assert.strictEqual(await readCursorUserRules(dbPath), "");
+  });
+
+  test("writes user rules and keeps other settings", async () => {
+    const dbPath = await createFixture("Old rules");
+    await writeCursorUserRules(dbPath, "New rules");
+
+    assert.strictEqual(await readCursorUserRules(dbPath), "New rules");
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await fs.readFile(dbPath));
+    const [result] = db.exec("SELECT value FROM ItemTable WHERE key = ?", [
+      "workbench.colorTheme",
+    ]);
+    db.close();
+    assert.strictEqual(result.values[0][0], "Cursor Dark");
+  });
+
+  test("backs up the storage file before writing", async () => {
+    const dbPath = await createFixture("Old rules");
+    const backupPath = await writeCursorUserRules(dbPath, "New rules");
+
+    assert.strictEqual(backupPath, `${dbPath}${CURSOR_STATE_BACKUP_SUFFIX}`);
+    assert.strictEqual(await readCursorUserRules(backupPath), "Old rules");
+  });
+
+  test("refuses to write while Cursor has the storage open", async () => {
+    const dbPath = await createFixture("Old rules");
+    await fs.writeFile(`${dbPath}-wal`, "");
+
+    await assert.rejects(
+      writeCursorUserRules(dbPath, "New rules"),
+      /Quit Cursor/,
+    );
+    assert.strictEqual(await readCursorUserRules(dbPath), "Old rules");
+  });
+});
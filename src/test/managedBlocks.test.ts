@@ -0,0 +1,85 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import {
+  getUnmanagedContent,
+  parseManagedBlocks,
+  renderManagedBlocks,
+  stripManagedMarkers,
+} from "../utils/managedBlocks";
+
+const HAND_WRITTEN = "# Team rules\n\nAlways write tests.\n";
+
+suite("Managed Blocks", () => {
+  test("appends blocks after hand-written rules", () => {
+    const text = renderManagedBlocks(HAND_WRITTEN, [
+      { id: "style", content: "Use prettier." },
+    ]);
+
+    assert.strictEqual(
+      text,
+      [
+        "# Team rules",
+        "",
+        "Always write tests.",
+        "",
+        "<!-- oh-my-prompt:begin id=style -->",
+        "Use prettier.",
+        "<!-- oh-my-prompt:end id=style -->",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("replaces blocks in place and keeps the rest untouched", () => {
+    const before = renderManagedBlocks(HAND_WRITTEN, [
+      { id: "style", content: "Use prettier." },
+    ]);
+    const withFooter = `${before}\nFooter written by hand.\n`;
+
+    const after = renderManagedBlocks(withFooter, [
+      { id: "security", content: "Never log secrets." },
+      { id: "style", content: "Use prettier.\n\nPrefer const." },
+    ]);
+
+    assert.deepStrictEqual(parseManagedBlocks(after), [
+      { id: "security", content: "Never log secrets." },
+      { id: "style", content: "Use prettier.\n\nPrefer const." },
+    ]);
+    assert.ok(after.startsWith(HAND_WRITTEN));
+    assert.ok(after.endsWith("\nFooter written by hand.\n"));
+  });
+
+  test("is stable when rendering the same blocks again", () => {
+    const blocks = [{ id: "style", content: "Use prettier.\n" }];
+    const once = renderManagedBlocks(HAND_WRITTEN, blocks);
+
+    assert.strictEqual(renderManagedBlocks(once, blocks), once);
+    assert.deepStrictEqual(parseManagedBlocks(once), blocks);
+  });
+
+  test("separates hand-written content from managed content", () => {
+    const text = renderManagedBlocks(HAND_WRITTEN, [
+      { id: "style", content: "Use prettier." },
+    ]);
+
+    assert.strictEqual(getUnmanagedContent(text), HAND_WRITTEN.trim());
+    assert.strictEqual(
+      stripManagedMarkers(text),
+      `${HAND_WRITTEN}\nUse prettier.\n`,
+    );
+  });
+
+  test("removes all blocks when rendering none", () => {
+    const text = renderManagedBlocks(HAND_WRITTEN, [
+      { id: "style", content: "Use prettier." },
+    ]);
+
+    assert.strictEqual(renderManagedBlocks(text, []), `${HAND_WRITTEN}\n`);
+  });
+});
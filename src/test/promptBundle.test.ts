@@ -0,0 +1,83 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { PromptSchema } from "../types/prompt";
+import {
+  createPromptBundle,
+  getImportedId,
+  readPromptBundle,
+} from "../utils/promptBundle";
+
+const prompt = (type: "global" | "project", id: string) =>
+  PromptSchema.parse({
+    meta: { type, id, name: `Prompt ${id}`, version: "1.2.0" },
+    content: `Rules of ${id}`,
+  });
+
+suite("Prompt Bundle", () => {
+  const bundle = createPromptBundle(
+    [prompt("global", "style"), prompt("project", "react")],
+    new Date("2026-10-19T00:00:00Z"),
+  );
+
+  test("lists every prompt in the manifest with its hash", () => {
+    assert.deepStrictEqual(
+      bundle.manifest.map(({ id, type, version, file }) => [
+        id,
+        type,
+        version,
+        file,
+      ]),
+      [
+        ["style", "global", "1.2.0", "global/style.toml"],
+        ["react", "project", "1.2.0", "project/react.toml"],
+      ],
+    );
+    assert.match(bundle.files["global/style.toml"], /^schemaVersion = 2/m);
+  });
+
+  test("reads back the prompts of a bundle", () => {
+    const bundled = readPromptBundle(JSON.stringify(bundle));
+    assert.deepStrictEqual(
+      bundled.map(({ prompt, error }) => [prompt?.content, error]),
+      [
+        ["Rules of style", undefined],
+        ["Rules of react", undefined],
+      ],
+    );
+  });
+
+  test("rejects entries that were edited or don't validate", () => {
+    const edited = structuredClone(bundle);
+    edited.files["global/style.toml"] += "\n# edited\n";
+    edited.manifest.push({ ...edited.manifest[1] });
+    const [style, react, duplicate] = readPromptBundle(JSON.stringify(edited));
+    assert.match(style.error!, /doesn't match its hash/);
+    assert.ok(react.prompt);
+    assert.match(duplicate.error!, /more than once/);
+
+    const escaping = structuredClone(bundle);
+    escaping.manifest[0].id = "../../style";
+    const [outside] = readPromptBundle(JSON.stringify(escaping));
+    assert.strictEqual(outside.prompt, undefined);
+    assert.match(outside.error!, /is not allowed: Must be a plain file name/);
+
+    assert.throws(
+      () => readPromptBundle('{"prompts": []}'),
+      /^Error: Not a prompt bundle/,
+    );
+  });
+
+  test("finds a free id to keep both prompts", () => {
+    assert.strictEqual(getImportedId("style", new Set()), "style-imported");
+    assert.strictEqual(
+      getImportedId("style", new Set(["style-imported"])),
+      "style-imported-2",
+    );
+  });
+});
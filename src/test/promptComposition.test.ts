@@ -0,0 +1,90 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { Prompt } from "../types/prompt";
+import {
+  dependsOnPrompt,
+  resolvePromptComposition,
+} from "../utils/promptComposition";
+
+const createPrompt = (
+  id: string,
+  content: string,
+  refs: Pick<Prompt, "extends" | "include"> = {},
+): Prompt => ({
+  meta: {
+    type: "project",
+    id,
+    name: id,
+    author: "Test",
+    version: "0.0.1",
+    date: "2026-10-19T00:00:00.000Z",
+    license: "MIT",
+  },
+  content,
+  ...refs,
+});
+
+const createLookup =
+  (...prompts: Prompt[]) =>
+  (id: string) =>
+    prompts.find((prompt) => prompt.meta.id === id);
+
+suite("Prompt Composition", () => {
+  test("expands extends, then includes, then own content", () => {
+    const lookup = createLookup(
+      createPrompt("base", "Base rules"),
+      createPrompt("style", "Code style"),
+      createPrompt("security", "Security", { extends: "base" }),
+    );
+    const resolved = resolvePromptComposition(
+      createPrompt("app", "App rules", {
+        extends: "base",
+        include: ["style", "security"],
+      }),
+      lookup,
+    );
+
+    assert.strictEqual(
+      resolved.content,
+      "Base rules\n\nCode style\n\nBase rules\n\nSecurity\n\nApp rules",
+    );
+    assert.strictEqual(resolved.extends, undefined);
+    assert.strictEqual(resolved.include, undefined);
+  });
+
+  test("reports missing references", () => {
+    assert.throws(
+      () =>
+        resolvePromptComposition(
+          createPrompt("app", "App rules", { include: ["nope"] }),
+          createLookup(),
+        ),
+      /references missing prompt "nope"/,
+    );
+  });
+
+  test("detects reference cycles", () => {
+    const a = createPrompt("a", "A", { include: ["b"] });
+    const b = createPrompt("b", "B", { extends: "a" });
+    assert.throws(
+      () => resolvePromptComposition(a, createLookup(a, b)),
+      /Circular prompt reference: a → b → a/,
+    );
+  });
+
+  test("finds transitive dependents", () => {
+    const a = createPrompt("a", "A", { include: ["b"] });
+    const b = createPrompt("b", "B", { extends: "c" });
+    const c = createPrompt("c", "C", { include: ["a"] });
+    const lookup = createLookup(a, b, c);
+
+    assert.ok(dependsOnPrompt(a, "c", lookup));
+    assert.ok(!dependsOnPrompt(b, "d", lookup));
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import * as assert from "assert";
+import { PromptSchema } from "../types/prompt";
+import { parseFrontmatter } from "../utils/frontmatter";
+import {
+  convertPromptText,
+  getPromptFileId,
+  getPromptFormat,
+  parsePromptText,
+  stringifyPrompt,
+} from "../utils/promptFormat";
+
+suite("Prompt Format", () => {
+  const prompt = PromptSchema.parse({
+    schemaVersion: 2,
+    meta: {
+      type: "project",
+      id: "react",
+      name: "React: hooks, state",
+      description: "Rules for React #components",
+      version: "1.0",
+      tags: ["react", "front end"],
+    },
+    content: "# React\n\n- Prefer function components\n",
+    scope: { globs: ["src/**/*.tsx"], alwaysApply: false },
+    include: ["style"],
+  });
+
+  test("detects the format from the file extension", () => {
+    assert.strictEqual(getPromptFormat("/lib/global/a.toml"), "toml");
+    assert.strictEqual(getPromptFormat("/lib/global/a.md"), "markdown");
+    assert.strictEqual(getPromptFormat("/lib/global/a.json"), undefined);
+    assert.strictEqual(getPromptFileId("/lib/project/react.md"), "react");
+  });
+
+  test("stores meta fields in frontmatter and content as the body", () => {
+    const text = stringifyPrompt(prompt, "markdown");
+    assert.ok(text.startsWith("---\nschemaVersion: 2\ntype: project\n"));
+    assert.ok(text.includes('\nversion: "1.0"\n'));
+    assert.ok(text.includes("\ntags: [react, front end]\n"));
+    assert.ok(text.includes('\n  globs: ["src/**/*.tsx"]\n'));
+    assert.ok(
+      text.endsWith("---\n\n# React\n\n- Prefer function components\n"),
+    );
+    assert.deepStrictEqual(
+      PromptSchema.parse(parsePromptText(text, "markdown")),
+      prompt,
+    );
+  });
+
+  test("converts between TOML and Markdown without losing fields", () => {
+    const toml = TOML.stringify(prompt);
+    const markdown = convertPromptText(toml, "toml", "markdown");
+    assert.deepStrictEqual(
+      TOML.parse(convertPromptText(markdown, "markdown", "toml")),
+      TOML.parse(toml),
+    );
+  });
+
+  test("keeps composition and variables through a Markdown round trip", () => {
+    const composed = PromptSchema.parse({
+      meta: { type: "global", id: "setup", name: "Setup" },
+      content: "Install with {{pm}} on {{os}}.",
+      extends: "base",
+      include: ["style", "security"],
+      variables: { pm: "pnpm", os: "macOS 14", retries: "3" },
+    });
+    const markdown = stringifyPrompt(composed, "markdown");
+    assert.ok(markdown.includes("\nvariables:\n  pm: pnpm\n"));
+    assert.deepStrictEqual(
+      PromptSchema.parse(parsePromptText(markdown, "markdown")),
+      composed,
+    );
+    assert.deepStrictEqual(
+      PromptSchema.parse(
+        TOML.parse(
+          convertPromptText(
+            convertPromptText(TOML.stringify(composed), "toml", "markdown"),
+            "markdown",
+            "toml",
+          ),
+        ),
+      ),
+      composed,
+    );
+  });
+
+  test("quotes variable keys that aren't plain identifiers", () => {
+    const scripted = PromptSchema.parse({
+      meta: { type: "project", id: "scripts", name: "Scripts" },
+      content: "Test with {{scripts.test}}.",
+      variables: { "scripts.test": "npm test", "it's": "quoted" },
+    });
+    const markdown = stringifyPrompt(scripted, "markdown");
+    assert.ok(markdown.includes('\n  "scripts.test": npm test\n'));
+    assert.deepStrictEqual(
+      PromptSchema.parse(parsePromptText(markdown, "markdown")),
+      scripted,
+    );
+    assert.deepStrictEqual(parseFrontmatter("scripts.lint: eslint ."), {
+      "scripts.lint": "eslint .",
+    });
+    assert.deepStrictEqual(parseFrontmatter("'it''s': ok"), { "it's": "ok" });
+  });
+
+  test("reads hand-written YAML", () => {
+    const data = parseFrontmatter(
+      [
+        "# a comment",
+        "name: 'It''s mine' # trailing comment",
+        "tags:",
+        "  - react",
+        '  - "testing"',
+        "description: >",
+        "  Folded",
+        "  text",
+        "scope:",
+        "  alwaysApply: true",
+        "  globs:",
+        "    - src/**",
+        "count: 3",
+        "empty:",
+      ].join("\n"),
+    );
+    assert.deepStrictEqual(data, {
+      name: "It's mine",
+      tags: ["react", "testing"],
+      description: "Folded text\n",
+      scope: { alwaysApply: true, globs: ["src/**"] },
+      count: 3,
+      empty: null,
+    });
+  });
+
+  test("reports unsupported or invalid frontmatter with its line", () => {
+    assert.throws(() => parseFrontmatter("a: 1\na: 2"), /line 2: Duplicate/);
+    assert.throws(() => parseFrontmatter("a: {b: 1}"), /Inline maps/);
+    assert.throws(
+      () => parsePromptText("# No frontmatter", "markdown"),
+      /must start with `---` frontmatter/,
+    );
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { lintPromptToml } from "../utils/promptLint";
+
+const prompt = (meta: string, content = "Be concise.") =>
+  `content = """\n${content}\nname = "not a key"\n"""\n\n[meta]\n${meta}\n`;
+
+suite("Prompt Lint", () => {
+  test("reports syntax errors at their position", () => {
+    const { issues } = lintPromptToml('content = "x"\n[meta]\nid = "abc\n');
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].code, "syntax");
+    assert.strictEqual(issues[0].line, 2);
+    assert.match(issues[0].message, /^Unterminated string/);
+  });
+
+  test("locates missing and unknown keys", () => {
+    const { prompt: parsed, issues } = lintPromptToml(
+      prompt('type = "global"\nid = "style"\ncolour = "red"'),
+      { fileId: "style" },
+    );
+    assert.strictEqual(parsed, undefined);
+    assert.deepStrictEqual(
+      issues.map(({ code, path, line }) => [code, path?.join("."), line]),
+      [
+        ["missing-key", "meta.name", 5],
+        ["unknown-key", "meta.colour", 8],
+      ],
+    );
+  });
+
+  test("checks the id against the file name and other prompts", () => {
+    const { prompt: parsed, issues } = lintPromptToml(
+      prompt('type = "global"\nid = "style"\nname = "Style"'),
+      { fileId: "styles", otherIds: new Map([["style", "other.toml"]]) },
+    );
+    assert.ok(parsed);
+    assert.deepStrictEqual(
+      issues.map(({ code, line }) => [code, line]),
+      [
+        ["id-mismatch", 7],
+        ["duplicate-id", 7],
+      ],
+    );
+  });
+
+  test("flags empty content", () => {
+    const { issues } = lintPromptToml(
+      'content = ""\n[meta]\ntype = "global"\nid = "a"\nname = "A"\n',
+    );
+    assert.deepStrictEqual(
+      issues.map(({ code, severity, line }) => [code, severity, line]),
+      [["empty-content", "error", 0]],
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import * as assert from "assert";
+import { PromptSchema } from "../types/prompt";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  migratePromptData,
+  needsMigration,
+} from "../utils/promptMigration";
+
+suite("Prompt Migration", () => {
+  const legacy = TOML.parse(
+    [
+      'content = "Be concise."',
+      "",
+      "[meta]",
+      'type = "global"',
+      'id = "style"',
+      'name = "Style"',
+      "version = 1.2",
+      'author = "Annoymous"',
+      "date = 2024-12-01T10:00:00Z",
+      "",
+    ].join("\n"),
+  );
+
+  test("treats files without a version as version 1", () => {
+    assert.strictEqual(getSchemaVersion(legacy), 1);
+    assert.ok(needsMigration(legacy));
+    assert.ok(
+      !needsMigration({ ...legacy, schemaVersion: CURRENT_SCHEMA_VERSION }),
+    );
+  });
+
+  test("upgrades version 1 files to the current schema", () => {
+    assert.strictEqual(PromptSchema.safeParse(legacy).success, false);
+
+    const { data, applied } = migratePromptData(legacy);
+    const prompt = PromptSchema.parse(data);
+    assert.strictEqual(prompt.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.strictEqual(prompt.meta.version, "1.2");
+    assert.strictEqual(prompt.meta.author, "Anonymous");
+    assert.strictEqual(prompt.meta.date, "2024-12-01T10:00:00.000Z");
+    assert.strictEqual(applied.length, 1);
+  });
+
+  test("leaves current files as they are", () => {
+    const current = { ...legacy, schemaVersion: CURRENT_SCHEMA_VERSION };
+    assert.deepStrictEqual(migratePromptData(current), {
+      data: current,
+      applied: [],
+    });
+  });
+
+  test("refuses files from a newer version", () => {
+    assert.throws(
+      () => migratePromptData({ ...legacy, schemaVersion: 99 }),
+      /newer than/,
+    );
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { Prompt } from "../types/prompt";
+import { searchPrompt, summarizeContent } from "../utils/promptSearch";
+
+const prompt = (
+  name: string,
+  content: string,
+  description?: string,
+  tags: string[] = [],
+) =>
+  ({
+    meta: { type: "global", id: name, name, description, tags },
+    content,
+  }) as Prompt;
+
+suite("Prompt Search", () => {
+  const review = prompt(
+    "Code Review",
+    "# Reviewer\n\nYou review pull requests.\nAlways check error handling and tests.",
+    "Strict reviewer",
+    ["react", "Testing"],
+  );
+
+  test("ranks name matches above content matches", () => {
+    const byName = searchPrompt(review, "review")!;
+    const byContent = searchPrompt(review, "handling")!;
+    assert.deepStrictEqual(byName.fields, ["name"]);
+    assert.deepStrictEqual(byContent.fields, ["content"]);
+    assert.ok(byName.score > byContent.score);
+  });
+
+  test("matches names fuzzily but content only on substrings", () => {
+    assert.deepStrictEqual(searchPrompt(review, "cdrv")?.fields, ["name"]);
+    assert.strictEqual(searchPrompt(review, "xyz"), undefined);
+    assert.strictEqual(searchPrompt(review, "hndlng"), undefined);
+  });
+
+  test("requires every term to match and shows the content around it", () => {
+    const result = searchPrompt(review, "strict tests")!;
+    assert.deepStrictEqual(result.fields, ["description", "content"]);
+    assert.match(result.snippet!, /check error handling and tests\.$/);
+    assert.strictEqual(searchPrompt(review, "strict python"), undefined);
+  });
+
+  test("filters by #tag prefixes before searching", () => {
+    assert.deepStrictEqual(searchPrompt(review, "#test")?.fields, ["tags"]);
+    assert.ok(searchPrompt(review, "#react strict"));
+    assert.strictEqual(searchPrompt(review, "#vue"), undefined);
+    assert.strictEqual(searchPrompt(review, "#react python"), undefined);
+  });
+
+  test("summarizes content with its first line", () => {
+    assert.strictEqual(summarizeContent(review.content), "Reviewer");
+    assert.strictEqual(summarizeContent("a".repeat(100), 10), "aaaaaaaaaa…");
+  });
+});
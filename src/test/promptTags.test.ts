@@ -0,0 +1,31 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { Prompt } from "../types/prompt";
+import { countTags, parseTags } from "../utils/promptTags";
+
+const prompt = (tags: string[]) => ({ meta: { tags } }) as Prompt;
+
+suite("Prompt Tags", () => {
+  test("parses and normalizes typed tags", () => {
+    assert.deepStrictEqual(parseTags(" React, #code review,,react "), [
+      "react",
+      "code-review",
+    ]);
+  });
+
+  test("counts tags once per prompt, most used first", () => {
+    assert.deepStrictEqual(
+      countTags([prompt(["b", "a"]), prompt(["a", "A"]), prompt([])]),
+      [
+        ["a", 2],
+        ["b", 1],
+      ],
+    );
+  });
+});
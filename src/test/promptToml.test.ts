@@ -0,0 +1,82 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import { formatPromptToml, getPromptKeys } from "../utils/promptToml";
+
+suite("Prompt TOML", () => {
+  test("describes the keys of a table from the schema", () => {
+    const type = getPromptKeys(["meta"]).find(({ name }) => name === "type");
+    assert.deepStrictEqual(type?.options, ["global", "project"]);
+    assert.strictEqual(type?.kind, "enum");
+    assert.strictEqual(type?.required, true);
+    assert.ok(type?.description);
+    assert.deepStrictEqual(getPromptKeys(["variables"]), []);
+  });
+
+  test("formats a prompt in canonical key order with defaults, keeping unknown keys", () => {
+    const formatted = formatPromptToml(
+      [
+        'content = "Be concise."',
+        'colour = "red"',
+        "[meta]",
+        'name = "Style"',
+        'id = "style"',
+        'type = "global"',
+        'date = "2026-10-19"',
+        "",
+        "[scope]",
+        "alwaysApply = true",
+        "",
+        "[outdated]",
+        "x = 1",
+        "",
+      ].join("\n"),
+    );
+    assert.strictEqual(
+      formatted,
+      [
+        "schemaVersion = 2",
+        'content = "Be concise."',
+        'colour = "red"',
+        "",
+        "[meta]",
+        'type = "global"',
+        'id = "style"',
+        'name = "Style"',
+        'author = "Anonymous"',
+        'version = "0.0.1"',
+        'date = "2026-10-19"',
+        'license = "MIT"',
+        "",
+        "[scope]",
+        "alwaysApply = true",
+        "",
+        "[outdated]",
+        "x = 1",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("upgrades files in an older format before formatting them", () => {
+    const formatted = formatPromptToml(
+      [
+        'content = "Be concise."',
+        "[meta]",
+        'type = "global"',
+        'id = "style"',
+        'name = "Style"',
+        "version = 1.2",
+        "date = 2026-10-19T00:00:00Z",
+      ].join("\n"),
+    );
+    assert.match(formatted, /^schemaVersion = 2$/m);
+    assert.match(formatted, /^version = "1.2"$/m);
+    assert.match(formatted, /^date = "2026-10-19T00:00:00.000Z"$/m);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as assert from "assert";
+import {
+  findTemplateVariables,
+  renderTemplate,
+} from "../utils/templateVariables";
+
+suite("Template Variables", () => {
+  test("finds each placeholder once, in order", () => {
+    assert.deepStrictEqual(
+      findTemplateVariables(
+        "Run {{ scripts.test }} in {{workspaceName}}, then {{scripts.test}}",
+      ),
+      ["scripts.test", "workspaceName"],
+    );
+  });
+
+  test("substitutes known values and keeps unknown placeholders", () => {
+    assert.strictEqual(
+      renderTemplate("Use {{packageManager}} for {{ workspaceName }}: {{x}}", {
+        packageManager: "pnpm",
+        workspaceName: "oh-my-prompt",
+      }),
+      "Use pnpm for oh-my-prompt: {{x}}",
+    );
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { z } from "zod";
+import { Prompt } from "./prompt";
+
+export const BundleEntrySchema = z.object({
+  /**
+   * Checked against `PromptIdSchema` per entry, so one bad id doesn't reject
+   * the whole bundle
+   */
+  id: z.string().min(1),
+  type: z.enum(["global", "project"]),
+  name: z.string(),
+  version: z.string(),
+  /** Hash of the entry's TOML, to detect bundles edited by hand */
+  hash: z.string().min(1),
+  /** Key of the entry's TOML in `files` */
+  file: z.string().min(1),
+});
+export type BundleEntry = z.infer<typeof BundleEntrySchema>;
+
+/**
+ * Contents of a prompt bundle file, prompts exported to share them
+ */
+export const PromptBundleSchema = z.object({
+  bundleVersion: z.literal(1),
+  createdAt: z.string(),
+  manifest: z.array(BundleEntrySchema),
+  /** TOML of each prompt, keyed by `<type>/<id>.toml` */
+  files: z.record(z.string()),
+});
+export type PromptBundle = z.infer<typeof PromptBundleSchema>;
+
+/**
+ * A bundle entry checked against its TOML and `PromptSchema`
+ */
+export interface BundledPrompt {
+  entry: BundleEntry;
+  /** Undefined if the entry is invalid */
+  prompt?: Prompt;
+  error?: string;
+}
+
+/** What to do with a bundled prompt whose id is already in the library */
+export type BundleConflictAction = "keep-both" | "overwrite" | "skip";
@@ -0,0 +1,22 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { PromptType } from "./prompt";
+
+export type SnapshotReason = "save" | "sync" | "delete" | "restore";
+
+/**
+ * A prompt file as it was at some point, kept in the local history
+ */
+export interface PromptSnapshot {
+  type: PromptType;
+  promptId: string;
+  /** The snapshot's TOML file */
+  path: string;
+  reason: SnapshotReason;
+  createdAt: Date;
+}
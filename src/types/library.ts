@@ -0,0 +1,32 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Prompt } from "./prompt";
+
+/**
+ * A directory holding `global/` and `project/` prompt folders
+ */
+export interface LibraryRoot {
+  path: string;
+  /** Shown next to the prompts of this library */
+  label: string;
+  readOnly: boolean;
+  /** The library committed with the workspace, holding project prompts only */
+  workspace?: boolean;
+}
+
+/**
+ * A prompt file read from a library, or the error that prevented loading it
+ */
+export interface LoadedPrompt {
+  prompt: Prompt | null;
+  path: string;
+  error?: string;
+  source: LibraryRoot;
+  /** Format version of a file that was migrated when loaded, not on disk */
+  migratedFrom?: number;
+}
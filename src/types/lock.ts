@@ -0,0 +1,28 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { z } from "zod";
+
+export const LockedPromptSchema = z.object({
+  id: z.string().min(1),
+  version: z.string(),
+  /** Hash of the composed content, before placeholders are filled in */
+  hash: z.string().min(1),
+});
+export type LockedPrompt = z.infer<typeof LockedPromptSchema>;
+
+/**
+ * Contents of `oh-my-prompt.lock`, pinning a workspace's project prompts
+ */
+export const PromptLockSchema = z.object({
+  lockfileVersion: z.literal(1),
+  /** Pinned prompts, in rules order */
+  prompts: z.array(LockedPromptSchema).min(1),
+  /** Ids of the project rules targets the prompts are synced to */
+  syncTargets: z.array(z.string()),
+});
+export type PromptLock = z.infer<typeof PromptLockSchema>;
@@ -0,0 +1,30 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * - `migrated`: rewritten in the current format, the original backed up
+ * - `current`: already in the current format
+ * - `read-only`: outdated, but its library is read-only
+ * - `failed`: could not be migrated, see `error`
+ */
+export type PromptMigrationStatus =
+  "migrated" | "current" | "read-only" | "failed";
+
+/**
+ * What migrating a prompt file did
+ */
+export interface PromptMigrationResult {
+  path: string;
+  status: PromptMigrationStatus;
+  /** Format version the file had */
+  fromVersion?: number;
+  /** Descriptions of the applied migrations */
+  changes?: string[];
+  backupPath?: string;
+  error?: string;
+}
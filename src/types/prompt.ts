@@ -9,21 +9,94 @@ import { z } from "zod";
 
 export type PromptType = "global" | "project";
 
+/** How a prompt file is stored, TOML or Markdown with YAML frontmatter */
+export type PromptFormat = "toml" | "markdown";
+
+/**
+ * A prompt id, which is also its file name: no path separators, characters
+ * file systems reject or leading dot
+ */
+export const PromptIdSchema = z
+  .string()
+  .min(1)
+  .regex(
+    /^[^./\\:*?"<>|][^/\\:*?"<>|]*$/,
+    "Must be a plain file name, without path separators or a leading dot",
+  );
+
 export const PromptMetaSchema = z.object({
-  type: z.enum(["global", "project"]),
-  id: z.string().min(1),
-  name: z.string().min(1),
-  description: z.string().optional(),
-  author: z.string().default("Annoymous"),
-  version: z.string().default("0.0.1"),
-  date: z.string().default(() => new Date().toISOString()),
-  license: z.string().default("MIT"),
+  type: z
+    .enum(["global", "project"])
+    .describe("Scope the prompt applies to: `global` or `project`"),
+  id: PromptIdSchema.describe(
+    "Unique id of the prompt, also used as its file name",
+  ),
+  name: z.string().min(1).describe("Name shown in the quick pick"),
+  description: z
+    .string()
+    .optional()
+    .describe("Short summary shown next to the name"),
+  author: z.string().default("Anonymous").describe("Author of the prompt"),
+  version: z
+    .string()
+    .default("0.0.1")
+    .describe("Semver version, bumped when the prompt is updated from rules"),
+  date: z
+    .string()
+    .default(() => new Date().toISOString())
+    .describe("ISO date of the last change"),
+  license: z.string().default("MIT").describe("License of the prompt"),
+  tags: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Tags to filter prompts by, e.g. `#react` in the quick pick"),
+  category: z
+    .string()
+    .optional()
+    .describe("Category the prompt is listed under"),
 });
 export type PromptMeta = z.infer<typeof PromptMetaSchema>;
 
+/**
+ * Optional scoping for tools that apply rules to matching files only
+ */
+export const PromptScopeSchema = z.object({
+  globs: z
+    .array(z.string())
+    .optional()
+    .describe("Glob patterns of the files the prompt applies to"),
+  alwaysApply: z
+    .boolean()
+    .optional()
+    .describe("Apply the prompt to every request, whatever the files"),
+});
+export type PromptScope = z.infer<typeof PromptScopeSchema>;
+
 export const PromptSchema = z.object({
-  meta: PromptMetaSchema,
-  content: z.string().min(1),
+  schemaVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Format version of the file, kept up to date by migrations"),
+  meta: PromptMetaSchema.describe("Metadata of the prompt"),
+  content: z.string().min(1).describe("Rules written to the IDE"),
+  scope: PromptScopeSchema.optional().describe(
+    "Scoping for tools with per-file rules such as Cursor",
+  ),
+  extends: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Id of a prompt whose resolved content comes first"),
+  include: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Ids of fragment prompts inserted after the extended prompt"),
+  variables: z
+    .record(z.string())
+    .optional()
+    .describe("Default values of the `{{variable}}` placeholders in content"),
 });
 
 export type Prompt = z.infer<typeof PromptSchema>;
@@ -0,0 +1,100 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import type * as vscode from "vscode";
+import { Prompt, PromptType } from "./prompt";
+
+export type IDEType = "vscode" | "windsurf" | "cursor" | "unknown";
+
+/**
+ * Environment information handed to rules targets
+ */
+export interface RulesTargetContext {
+  ide: IDEType;
+  homeDir: string;
+  workspaceRoot?: string;
+}
+
+/**
+ * An AI tool whose rules can be read and written by Oh My Prompt
+ */
+export interface RulesTarget {
+  /** Stable identifier, e.g. "windsurf" */
+  readonly id: string;
+  /** Human readable name shown in the UI */
+  readonly label: string;
+  /** IDE that hosts the tool, if any */
+  readonly ide?: IDEType;
+
+  /**
+   * Whether the tool is in use for the given scope
+   */
+  detect(type: PromptType, context: RulesTargetContext): Promise<boolean>;
+
+  /**
+   * Location of the rules for the given scope, or undefined if unsupported
+   */
+  getRulesPath(
+    type: PromptType,
+    context: RulesTargetContext,
+  ): string | undefined;
+
+  /**
+   * Pattern to watch for external changes, or undefined if not watchable
+   */
+  getWatchPattern(rulesPath: string): vscode.GlobPattern | undefined;
+
+  read(rulesPath: string): Promise<string>;
+
+  write(rulesPath: string, content: string): Promise<void>;
+
+  /**
+   * Open the rules for editing in the IDE
+   */
+  edit(rulesPath: string): Promise<void>;
+
+  /**
+   * Read individual rule files back as prompts, for targets that hold one
+   * file per rule
+   */
+  readPrompts?(rulesPath: string, type: PromptType): Promise<Prompt[]>;
+
+  /**
+   * Write prompts as individual rule files, for targets that hold one file
+   * per rule
+   */
+  writePrompts?(rulesPath: string, prompts: Prompt[]): Promise<void>;
+}
+
+/**
+ * A rules target resolved against the current environment
+ */
+export interface ResolvedRulesTarget {
+  target: RulesTarget;
+  rulesPath: string;
+}
+
+/**
+ * Outcome of writing a prompt to one rules target
+ */
+export interface RulesSyncResult extends ResolvedRulesTarget {
+  error?: unknown;
+}
+
+/**
+ * Rules content that activating a prompt would replace
+ */
+export interface RulesOverwritePreview extends ResolvedRulesTarget {
+  current: string;
+  next: string;
+}
+
+/**
+ * How prompts are written to single-file rules targets: replacing the whole
+ * file, or only the marker-delimited blocks owned by Oh My Prompt
+ */
+export type SyncMode = "overwrite" | "managed";
@@ -0,0 +1,28 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { z } from "zod";
+
+/**
+ * Sidecar `<file>.json` kept next to a prompt file moved to the trash
+ */
+export const TrashEntryMetaSchema = z.object({
+  /** Where the prompt file lived before it was deleted */
+  originalPath: z.string().min(1),
+  type: z.enum(["global", "project"]),
+  name: z.string(),
+  deletedAt: z.string(),
+});
+export type TrashEntryMeta = z.infer<typeof TrashEntryMetaSchema>;
+
+/**
+ * A prompt file in the trash
+ */
+export interface TrashEntry extends TrashEntryMeta {
+  /** The file in the trash directory */
+  path: string;
+}
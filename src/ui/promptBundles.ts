@@ -0,0 +1,279 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import * as fs from "fs/promises";
+import capitalize from "lodash/capitalize";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { PromptManager } from "../services/promptManager";
+import { WorkspaceFolderTracker } from "../services/workspaceFolderTracker";
+import { BundleConflictAction, BundledPrompt } from "../types/bundle";
+import { LoadedPrompt } from "../types/library";
+import {
+  createPromptBundle,
+  getImportedId,
+  readPromptBundle,
+} from "../utils/promptBundle";
+import { VscodeLogger } from "../vscode-logger";
+
+const BUNDLE_FILTERS = { "Prompt Bundles": ["json"] };
+
+/**
+ * Exports prompts to a single bundle file and imports bundles into the
+ * library, so prompts can be handed to a colleague
+ */
+@Service()
+export class PromptBundles {
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly folderTracker: WorkspaceFolderTracker,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  /**
+   * Pick prompts and write them to a bundle file
+   */
+  async exportPrompts() {
+    try {
+      const loaded = (await this.loadLibrary()).filter(({ prompt }) => prompt);
+      if (loaded.length === 0) {
+        vscode.window.showInformationMessage("No prompts to export");
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        loaded.map((item) => ({
+          label: item.prompt!.meta.name,
+          description: `${capitalize(item.prompt!.meta.type)} · ${item.prompt!.meta.id}`,
+          detail: item.prompt!.meta.description || undefined,
+          loaded: item,
+        })),
+        {
+          title: "Export Prompts",
+          placeHolder: "Check the prompts to export",
+          canPickMany: true,
+          matchOnDescription: true,
+        },
+      );
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      const uri = await vscode.window.showSaveDialog({
+        title: "Export Prompts",
+        saveLabel: "Export",
+        filters: BUNDLE_FILTERS,
+        defaultUri: vscode.Uri.file(
+          path.join(
+            this.folderTracker.getActiveRoot() ??
+              process.env.HOME ??
+              process.env.USERPROFILE ??
+              "",
+            `oh-my-prompt-bundle-${new Date().toISOString().slice(0, 10)}.json`,
+          ),
+        ),
+      });
+      if (!uri) {
+        return;
+      }
+
+      const bundle = createPromptBundle(
+        selected.map((item) => item.loaded.prompt!),
+      );
+      await fs.writeFile(
+        uri.fsPath,
+        `${JSON.stringify(bundle, null, 2)}\n`,
+        "utf-8",
+      );
+      this.logger.info(`Exported ${selected.length} prompts to ${uri.fsPath}`);
+      vscode.window.showInformationMessage(
+        `Exported ${selected.length} prompt${selected.length === 1 ? "" : "s"} to ${uri.fsPath}`,
+      );
+    } catch (error) {
+      this.logger.error("Failed to export prompts:", error);
+      vscode.window.showErrorMessage(
+        `Failed to export prompts: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Preview a bundle file, then write the checked prompts to the library
+   */
+  async importBundle() {
+    try {
+      const [uri] =
+        (await vscode.window.showOpenDialog({
+          title: "Import Prompt Bundle",
+          openLabel: "Preview",
+          canSelectMany: false,
+          filters: BUNDLE_FILTERS,
+        })) ?? [];
+      if (!uri) {
+        return;
+      }
+
+      const bundled = readPromptBundle(await fs.readFile(uri.fsPath, "utf-8"));
+      const existing = await this.loadLibrary();
+      const existingIds = new Set(
+        existing.flatMap(({ prompt }) =>
+          prompt ? [`${prompt.meta.type}:${prompt.meta.id}`] : [],
+        ),
+      );
+      const conflicts = (item: BundledPrompt) =>
+        existingIds.has(`${item.entry.type}:${item.entry.id}`);
+
+      const selected = await this.previewBundle(bundled, conflicts);
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      const conflicting = selected.filter(conflicts);
+      let action: BundleConflictAction = "skip";
+      if (conflicting.length > 0) {
+        const answer = await vscode.window.showWarningMessage(
+          `${conflicting.length} of the prompts to import already exist`,
+          {
+            modal: true,
+            detail: conflicting
+              .map(({ entry }) => `${capitalize(entry.type)}: ${entry.id}`)
+              .join("\n"),
+          },
+          "Keep Both",
+          "Overwrite",
+          "Skip",
+        );
+        if (!answer) {
+          return;
+        }
+        action = (
+          {
+            "Keep Both": "keep-both",
+            Overwrite: "overwrite",
+            Skip: "skip",
+          } as const
+        )[answer];
+      }
+
+      await this.writeBundled(selected, conflicts, action, existing);
+    } catch (error) {
+      this.logger.error("Failed to import prompt bundle:", error);
+      vscode.window.showErrorMessage(
+        `Failed to import prompt bundle: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List every entry of a bundle with whether it is new, conflicts with the
+   * library or is invalid, checking the valid ones
+   */
+  private async previewBundle(
+    bundled: BundledPrompt[],
+    conflicts: (item: BundledPrompt) => boolean,
+  ): Promise<BundledPrompt[] | undefined> {
+    const invalid = bundled.filter(({ prompt }) => !prompt);
+    if (bundled.length === invalid.length) {
+      throw new Error(
+        invalid.length === 0
+          ? "The bundle is empty"
+          : `No valid prompt in the bundle: ${invalid
+              .map(({ entry, error }) => `${entry.id}: ${error}`)
+              .join(", ")}`,
+      );
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      bundled.map((item) => ({
+        label: `${item.prompt ? "" : "$(error) "}${item.entry.name}`,
+        description: `${capitalize(item.entry.type)} · ${item.entry.id} · v${item.entry.version}`,
+        detail: item.prompt
+          ? conflicts(item)
+            ? "$(warning) Already in the library"
+            : "New prompt"
+          : `Invalid, will not be imported: ${item.error}`,
+        picked: !!item.prompt,
+        item,
+      })),
+      {
+        title: `Import ${bundled.length - invalid.length} of ${bundled.length} Prompts`,
+        placeHolder: "Check the prompts to import",
+        canPickMany: true,
+        matchOnDescription: true,
+      },
+    );
+    return selected?.map(({ item }) => item).filter(({ prompt }) => prompt);
+  }
+
+  private async writeBundled(
+    selected: BundledPrompt[],
+    conflicts: (item: BundledPrompt) => boolean,
+    action: BundleConflictAction,
+    existing: LoadedPrompt[],
+  ) {
+    // Renamed copies must not collide with the library or the bundle
+    const takenIds = new Set([
+      ...existing.flatMap(({ prompt }) => (prompt ? [prompt.meta.id] : [])),
+      ...selected.map(({ entry }) => entry.id),
+    ]);
+    let imported = 0;
+    let skipped = 0;
+    const failures: string[] = [];
+    for (const item of selected) {
+      const prompt = item.prompt!;
+      const conflicting = conflicts(item);
+      if (conflicting && action === "skip") {
+        skipped++;
+        continue;
+      }
+      try {
+        if (conflicting && action === "keep-both") {
+          const id = getImportedId(prompt.meta.id, takenIds);
+          takenIds.add(id);
+          await this.promptManager.savePrompt({
+            ...prompt,
+            meta: {
+              ...prompt.meta,
+              id,
+              name: `${prompt.meta.name} (imported)`,
+            },
+          });
+        } else {
+          await this.promptManager.savePrompt(prompt);
+        }
+        imported++;
+      } catch (error) {
+        this.logger.error(`Failed to import ${prompt.meta.id}:`, error);
+        failures.push(`${prompt.meta.id}: ${formatError(error)}`);
+      }
+    }
+
+    const summary = [
+      `Imported ${imported} prompt${imported === 1 ? "" : "s"}`,
+      ...(skipped > 0 ? [`skipped ${skipped} existing`] : []),
+    ].join(", ");
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(
+        `${summary}, ${failures.length} failed: ${failures.join("; ")}`,
+      );
+    } else {
+      vscode.window.showInformationMessage(summary);
+    }
+  }
+
+  private async loadLibrary(): Promise<LoadedPrompt[]> {
+    return [
+      ...(await this.promptManager.loadPrompts("global")),
+      ...(await this.promptManager.loadPrompts(
+        "project",
+        this.folderTracker.getActiveRoot(),
+      )),
+    ];
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import * as path from "path";
+import { Service } from "typedi";
+import { v4 as uuidv4 } from "uuid";
+import * as vscode from "vscode";
+import { PromptManager } from "../services/promptManager";
+import { Prompt, PromptMeta, PromptSchema } from "../types/prompt";
+import { getPromptFormat, parsePromptText } from "../utils/promptFormat";
+import { migratePromptData } from "../utils/promptMigration";
+import { getPromptKeys } from "../utils/promptToml";
+import { VscodeLogger } from "../vscode-logger";
+
+export const PROMPT_EDITOR_VIEW_TYPE = "oh-my-prompt.promptEditor";
+
+/**
+ * Open a prompt file in the form editor
+ */
+export const openPromptEditor = async (filePath: string) => {
+  await vscode.commands.executeCommand(
+    "vscode.openWith",
+    vscode.Uri.file(filePath),
+    PROMPT_EDITOR_VIEW_TYPE,
+  );
+};
+
+/** What the form sends back, the other keys of the file are kept as they are */
+interface PromptDraft {
+  meta: Partial<PromptMeta>;
+  content: string;
+}
+
+type EditorMessage =
+  | { type: "ready" }
+  | ({ type: "change" } & PromptDraft)
+  | ({ type: "save" } & PromptDraft)
+  | { type: "openText" };
+
+/**
+ * Edits prompt files with a form for `[meta]` and a Markdown editor for
+ * the content, next to its rendered preview
+ */
+@Service()
+export class PromptEditorProvider implements vscode.CustomTextEditorProvider {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  start() {
+    this.disposables.push(
+      vscode.window.registerCustomEditorProvider(
+        PROMPT_EDITOR_VIEW_TYPE,
+        this,
+        { webviewOptions: { retainContextWhenHidden: true } },
+      ),
+    );
+  }
+
+  async resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    panel: vscode.WebviewPanel,
+  ): Promise<void> {
+    const { webview } = panel;
+    webview.options = { enableScripts: true };
+    webview.html = this.getHtml(webview);
+
+    const post = (message: Record<string, unknown>) =>
+      webview.postMessage(message);
+    const load = () => {
+      try {
+        post({ type: "load", prompt: this.parse(document) });
+      } catch (error) {
+        post({ type: "load", error: formatError(error) });
+      }
+    };
+
+    const subscriptions = [
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document.uri.toString() === document.uri.toString()) {
+          load();
+        }
+      }),
+      webview.onDidReceiveMessage(async (message: EditorMessage) => {
+        try {
+          switch (message.type) {
+            case "ready":
+              post({
+                type: "init",
+                fields: getPromptKeys(["meta"]),
+                fileName: path.basename(document.uri.fsPath),
+              });
+              load();
+              break;
+            case "change":
+              post({
+                type: "preview",
+                ...(await this.preview(document, message)),
+              });
+              break;
+            case "save": {
+              const saved = await this.save(document, message);
+              if (saved) {
+                post({ type: "saved", prompt: saved });
+              }
+              break;
+            }
+            case "openText":
+              await vscode.window.showTextDocument(document, {
+                viewColumn: panel.viewColumn,
+              });
+              break;
+          }
+        } catch (error) {
+          this.logger.error("Failed to handle prompt editor message:", error);
+          vscode.window.showErrorMessage(
+            `Prompt editor failed: ${formatError(error)}`,
+          );
+        }
+      }),
+    ];
+    panel.onDidDispose(() => subscriptions.forEach((d) => d.dispose()));
+  }
+
+  private parse(document: vscode.TextDocument): Prompt {
+    const data = parsePromptText(
+      document.getText(),
+      getPromptFormat(document.uri.fsPath) ?? "toml",
+    );
+    return PromptSchema.parse(migratePromptData(data).data);
+  }
+
+  /**
+   * Put the form values over the prompt of the file, so keys the form
+   * doesn't show survive a save
+   */
+  private merge(document: vscode.TextDocument, draft: PromptDraft) {
+    const base = this.parse(document);
+    const meta: Record<string, unknown> = { ...base.meta };
+    for (const [key, value] of Object.entries(draft.meta)) {
+      // Leave optional keys out rather than writing empty values
+      const empty = value === "" || (Array.isArray(value) && !value.length);
+      if (!empty || key in base.meta) {
+        meta[key] = value;
+      }
+    }
+    return PromptSchema.safeParse({
+      ...base,
+      // The id is the file name and the type its folder
+      meta: { ...meta, id: base.meta.id, type: base.meta.type },
+      content: draft.content,
+    });
+  }
+
+  private async preview(document: vscode.TextDocument, draft: PromptDraft) {
+    let html: string;
+    try {
+      html = await vscode.commands.executeCommand<string>(
+        "markdown.api.render",
+        draft.content,
+      );
+    } catch {
+      // The built-in Markdown extension is disabled
+      html = `<pre>${escapeHtml(draft.content)}</pre>`;
+    }
+
+    let issues: { path: string; message: string }[] = [];
+    try {
+      const result = this.merge(document, draft);
+      issues = result.success
+        ? []
+        : result.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          }));
+    } catch {
+      // The file itself is broken, the form shows that already
+    }
+
+    return {
+      html,
+      characters: draft.content.length,
+      // Rough estimate, about four characters per token for English text
+      tokens: Math.ceil(draft.content.length / 4),
+      issues,
+    };
+  }
+
+  /**
+   * @returns Promise<Prompt | undefined> the saved prompt, undefined if not
+   * saved
+   */
+  private async save(
+    document: vscode.TextDocument,
+    draft: PromptDraft,
+  ): Promise<Prompt | undefined> {
+    if (document.isDirty) {
+      vscode.window.showWarningMessage(
+        `${path.basename(document.uri.fsPath)} has unsaved changes in a text editor, save or revert them first`,
+      );
+      return undefined;
+    }
+
+    const result = this.merge(document, draft);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      throw new Error(`${issue.path.join(".")}: ${issue.message}`);
+    }
+    await this.promptManager.savePrompt(result.data, document.uri.fsPath);
+    this.logger.info(`Saved prompt from editor: ${document.uri.fsPath}`);
+    return result.data;
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = uuidv4().replace(/-/g, "");
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { padding: 0 16px 16px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    header { display: flex; align-items: center; gap: 8px; position: sticky; top: 0; padding: 8px 0; background: var(--vscode-editor-background); }
+    header h2 { flex: 1; margin: 0; font-size: 1.1em; }
+    button { padding: 4px 12px; border: none; color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    input, select, textarea { box-sizing: border-box; width: 100%; padding: 4px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); font-family: inherit; }
+    input[readonly] { opacity: 0.7; }
+    .invalid { border-color: var(--vscode-inputValidation-errorBorder); }
+    #meta { display: grid; grid-template-columns: max-content 1fr; gap: 6px 12px; align-items: center; margin-bottom: 16px; }
+    #meta label { font-weight: 600; }
+    #editor { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+    #content { min-height: 60vh; resize: vertical; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    #preview { padding: 0 12px; overflow: auto; max-height: 80vh; border-left: 1px solid var(--vscode-panel-border); }
+    #issues { white-space: pre-line; }
+    #counters, .hint { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    .banner { padding: 6px 8px; margin-bottom: 8px; background: var(--vscode-inputValidation-warningBackground); border: 1px solid var(--vscode-inputValidation-warningBorder); }
+    .banner.error { background: var(--vscode-inputValidation-errorBackground); border-color: var(--vscode-inputValidation-errorBorder); }
+    [hidden] { display: none !important; }
+  </style>
+</head>
+<body>
+  <header>
+    <h2 id="title"></h2>
+    <span id="dirty" class="hint" hidden>Unsaved changes</span>
+    <button id="openText" class="secondary">Edit as Text</button>
+    <button id="save">Save</button>
+  </header>
+  <div id="error" class="banner error" hidden></div>
+  <div id="changed" class="banner" hidden>
+    The file changed outside this editor. <button id="reload" class="secondary">Reload</button>
+  </div>
+  <div id="issues" class="banner error" hidden></div>
+  <form id="meta"></form>
+  <div id="editor">
+    <div>
+      <textarea id="content" spellcheck="false"></textarea>
+      <div id="counters"></div>
+    </div>
+    <div id="preview"></div>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const $ = (id) => document.getElementById(id);
+    const readOnly = ["id", "type"];
+    let fields = [];
+    let loaded;
+    let pending;
+    let timer;
+
+    // Lists such as tags are edited comma-separated
+    const toInput = (field, value) =>
+      field.kind === "array" ? (value ?? []).join(", ") : value ?? "";
+    const fromInput = (field, value) =>
+      field.kind === "array"
+        ? value.split(",").map((item) => item.trim()).filter(Boolean)
+        : value;
+
+    const draft = () => {
+      const meta = {};
+      for (const field of fields) {
+        meta[field.name] = fromInput(field, $("meta-" + field.name).value);
+      }
+      return { meta, content: $("content").value };
+    };
+
+    const isDirty = () =>
+      !!loaded &&
+      (loaded.content !== $("content").value ||
+        fields.some((field) => toInput(field, loaded.meta[field.name]) !== $("meta-" + field.name).value));
+
+    const changed = () => {
+      $("dirty").hidden = !isDirty();
+      clearTimeout(timer);
+      timer = setTimeout(() => vscode.postMessage({ type: "change", ...draft() }), 200);
+    };
+
+    const fill = (prompt) => {
+      loaded = prompt;
+      pending = undefined;
+      $("changed").hidden = true;
+      for (const field of fields) {
+        $("meta-" + field.name).value = toInput(field, prompt.meta[field.name]);
+      }
+      $("content").value = prompt.content;
+      changed();
+    };
+
+    const buildForm = () => {
+      const form = $("meta");
+      form.textContent = "";
+      for (const field of fields) {
+        const label = document.createElement("label");
+        label.htmlFor = "meta-" + field.name;
+        label.textContent = field.name + (field.required ? " *" : "");
+        label.title = field.description ?? "";
+        let input;
+        if (field.options && !readOnly.includes(field.name)) {
+          input = document.createElement("select");
+          for (const option of field.options) {
+            input.add(new Option(option, option));
+          }
+        } else {
+          input = document.createElement("input");
+          input.readOnly = readOnly.includes(field.name);
+        }
+        input.id = "meta-" + field.name;
+        input.placeholder = field.description ?? "";
+        input.addEventListener("input", changed);
+        form.append(label, input);
+      }
+    };
+
+    const save = () => {
+      if (!$("error").hidden) {
+        return;
+      }
+      vscode.postMessage({ type: "save", ...draft() });
+    };
+
+    window.addEventListener("message", ({ data }) => {
+      switch (data.type) {
+        case "init":
+          fields = data.fields.filter((field) => field.kind !== "table");
+          $("title").textContent = data.fileName;
+          buildForm();
+          break;
+        case "load":
+          $("error").hidden = !data.error;
+          $("error").textContent = data.error
+            ? "This file is not a valid prompt, fix it in the text editor first: " + data.error
+            : "";
+          $("save").disabled = !!data.error;
+          if (!data.prompt) {
+            break;
+          }
+          if (isDirty() && JSON.stringify(data.prompt) !== JSON.stringify(loaded)) {
+            pending = data.prompt;
+            $("changed").hidden = false;
+          } else {
+            fill(data.prompt);
+          }
+          break;
+        case "preview":
+          $("preview").innerHTML = data.html;
+          $("counters").textContent =
+            data.characters.toLocaleString() + " characters · ~" + data.tokens.toLocaleString() + " tokens";
+          $("issues").hidden = data.issues.length === 0;
+          $("issues").textContent = data.issues
+            .map((issue) => (issue.path || "prompt") + ": " + issue.message)
+            .join("\\n");
+          for (const field of fields) {
+            $("meta-" + field.name).classList.toggle(
+              "invalid",
+              data.issues.some((issue) => issue.path === "meta." + field.name),
+            );
+          }
+          $("content").classList.toggle(
+            "invalid",
+            data.issues.some((issue) => issue.path === "content"),
+          );
+          break;
+        case "saved":
+          fill(data.prompt);
+          break;
+      }
+    });
+
+    $("content").addEventListener("input", changed);
+    $("save").addEventListener("click", save);
+    $("openText").addEventListener("click", () => vscode.postMessage({ type: "openText" }));
+    $("reload").addEventListener("click", () => pending && fill(pending));
+    window.addEventListener("keydown", (event) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === "s") {
+        event.preventDefault();
+        save();
+      }
+    });
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ]!,
+  );
@@ -0,0 +1,64 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as vscode from "vscode";
+import { Prompt } from "../types/prompt";
+
+const PREVIEW_SCHEME = "oh-my-prompt-prompt";
+
+/**
+ * Shows prompts read-only in a side editor while they are browsed, closing
+ * it when disposed
+ */
+export class PromptPreview implements vscode.Disposable {
+  private contents = new Map<string, string>();
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private provider = vscode.workspace.registerTextDocumentContentProvider(
+    PREVIEW_SCHEME,
+    {
+      onDidChange: this.changeEmitter.event,
+      provideTextDocumentContent: (uri) => this.contents.get(uri.toString()),
+    },
+  );
+
+  async show(prompt: Prompt) {
+    const uri = vscode.Uri.from({
+      scheme: PREVIEW_SCHEME,
+      path: `/${prompt.meta.type}/${prompt.meta.id}.md`,
+    });
+    this.contents.set(
+      uri.toString(),
+      [
+        `# ${prompt.meta.name}`,
+        ...(prompt.meta.description
+          ? ["", `> ${prompt.meta.description}`]
+          : []),
+        "",
+        prompt.content,
+      ].join("\n"),
+    );
+    this.changeEmitter.fire(uri);
+    await vscode.window.showTextDocument(uri, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: true,
+      preserveFocus: true,
+    });
+  }
+
+  dispose() {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(
+        (tab) =>
+          tab.input instanceof vscode.TabInputText &&
+          tab.input.uri.scheme === PREVIEW_SCHEME,
+      );
+    vscode.window.tabGroups.close(tabs).then(undefined, () => undefined);
+    this.provider.dispose();
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import capitalize from "lodash/capitalize";
+import * as path from "path";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { ActivePromptStore } from "../services/activePromptStore";
+import { PromptManager } from "../services/promptManager";
+import { WorkspaceFolderTracker } from "../services/workspaceFolderTracker";
+import { LibraryRoot, LoadedPrompt } from "../types/library";
+import { PromptFormat, PromptType } from "../types/prompt";
+import { getPromptFormat } from "../utils/promptFormat";
+import { formatTags } from "../utils/promptTags";
+import { VscodeLogger } from "../vscode-logger";
+import { openPromptEditor } from "./promptEditorProvider";
+import { StatusBarItems } from "./statusBarItems";
+
+export const PROMPT_TREE_VIEW_ID = "oh-my-prompt.prompts";
+const DRAG_MIME_TYPE = `application/vnd.code.tree.${PROMPT_TREE_VIEW_ID}`;
+const REFRESH_DELAY = 200;
+
+export type PromptTreeNode =
+  | { kind: "scope"; type: PromptType }
+  | {
+      kind: "source";
+      type: PromptType;
+      source: LibraryRoot;
+      prompts: LoadedPrompt[];
+    }
+  | { kind: "prompt"; type: PromptType; loaded: LoadedPrompt };
+
+/**
+ * Prompts of the libraries in the activity bar, grouped by scope and, when
+ * there are several, by library
+ */
+@Service()
+export class PromptTreeView
+  implements
+    vscode.TreeDataProvider<PromptTreeNode>,
+    vscode.TreeDragAndDropController<PromptTreeNode>
+{
+  readonly dragMimeTypes = [DRAG_MIME_TYPE];
+  readonly dropMimeTypes = [DRAG_MIME_TYPE];
+
+  private changeEmitter = new vscode.EventEmitter<PromptTreeNode | void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private watchers: vscode.Disposable[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private refreshTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly activePromptStore: ActivePromptStore,
+    private readonly folderTracker: WorkspaceFolderTracker,
+    private readonly statusBarItems: StatusBarItems,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  start() {
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.window.createTreeView(PROMPT_TREE_VIEW_ID, {
+        treeDataProvider: this,
+        dragAndDropController: this,
+        showCollapseAll: true,
+      }),
+      this.activePromptStore.onDidChange(() => this.refresh()),
+      this.folderTracker.onDidChangeActiveFolder(() => {
+        this.watchLibraries();
+        this.refresh();
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("ohMyPrompt.libraryRoots")) {
+          this.watchLibraries();
+          this.refresh();
+        }
+      }),
+    );
+    this.watchLibraries();
+  }
+
+  /**
+   * Refresh the tree whenever a prompt file of a library changes
+   */
+  private watchLibraries() {
+    this.watchers.forEach((d) => d.dispose());
+    this.watchers = this.promptManager.getLibraryRoots().flatMap((root) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.file(root.path),
+          "**/*.{toml,md}",
+        ),
+      );
+      return [
+        watcher,
+        watcher.onDidCreate(() => this.scheduleRefresh()),
+        watcher.onDidChange(() => this.scheduleRefresh()),
+        watcher.onDidDelete(() => this.scheduleRefresh()),
+      ];
+    });
+  }
+
+  private scheduleRefresh() {
+    clearTimeout(this.refreshTimeout);
+    this.refreshTimeout = setTimeout(() => this.refresh(), REFRESH_DELAY);
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  private getWorkspaceRoot(type: PromptType) {
+    return type === "project" ? this.folderTracker.getActiveRoot() : undefined;
+  }
+
+  async getChildren(node?: PromptTreeNode): Promise<PromptTreeNode[]> {
+    if (!node) {
+      return [
+        { kind: "scope", type: "global" },
+        { kind: "scope", type: "project" },
+      ];
+    }
+    if (node.kind === "source") {
+      return this.toPromptNodes(node.type, node.prompts);
+    }
+    if (node.kind === "prompt") {
+      return [];
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot(node.type);
+    try {
+      const prompts = await this.promptManager.loadPrompts(
+        node.type,
+        workspaceRoot,
+      );
+      const sources = this.promptManager
+        .getLibraryRoots(workspaceRoot)
+        .filter((source) => node.type === "project" || !source.workspace);
+      if (sources.length <= 1) {
+        return this.toPromptNodes(node.type, prompts);
+      }
+      return sources.map((source) => ({
+        kind: "source",
+        type: node.type,
+        source,
+        prompts: prompts.filter((loaded) => loaded.source.path === source.path),
+      }));
+    } catch (error) {
+      this.logger.error(`Failed to load ${node.type} prompts for tree:`, error);
+      return [];
+    }
+  }
+
+  private toPromptNodes(
+    type: PromptType,
+    prompts: LoadedPrompt[],
+  ): PromptTreeNode[] {
+    const label = (loaded: LoadedPrompt) =>
+      loaded.prompt?.meta.name ?? path.basename(loaded.path);
+    return [...prompts]
+      .sort((a, b) => label(a).localeCompare(label(b)))
+      .map((loaded) => ({ kind: "prompt", type, loaded }));
+  }
+
+  getTreeItem(node: PromptTreeNode): vscode.TreeItem {
+    if (node.kind === "scope") {
+      const workspaceRoot = this.getWorkspaceRoot(node.type);
+      const item = new vscode.TreeItem(
+        capitalize(node.type),
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.id = `scope:${node.type}`;
+      item.contextValue = "scope";
+      item.iconPath = new vscode.ThemeIcon(
+        node.type === "global" ? "globe" : "folder",
+      );
+      item.description = [
+        workspaceRoot && this.folderTracker.isMultiRoot()
+          ? this.folderTracker.getFolderName(workspaceRoot)
+          : undefined,
+        this.activePromptStore.get(node.type, workspaceRoot)?.name,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+      return item;
+    }
+
+    if (node.kind === "source") {
+      const item = new vscode.TreeItem(
+        node.source.label,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.id = `source:${node.type}:${node.source.path}`;
+      item.contextValue = "source";
+      item.iconPath = new vscode.ThemeIcon(
+        node.source.readOnly
+          ? "lock"
+          : node.source.workspace
+            ? "repo"
+            : "library",
+      );
+      item.description = `${node.prompts.length}`;
+      item.tooltip = node.source.path;
+      return item;
+    }
+
+    const { prompt, path: filePath, error, source } = node.loaded;
+    const item = new vscode.TreeItem(
+      prompt?.meta.name ?? path.basename(filePath),
+    );
+    item.id = `prompt:${filePath}`;
+    item.resourceUri = vscode.Uri.file(filePath);
+    if (!prompt) {
+      item.contextValue = "prompt.error";
+      item.iconPath = new vscode.ThemeIcon(
+        "error",
+        new vscode.ThemeColor("errorForeground"),
+      );
+      item.description = "Error loading prompt";
+      item.tooltip = error;
+      item.command = {
+        command: "vscode.open",
+        title: "Edit prompt file",
+        arguments: [item.resourceUri],
+      };
+      return item;
+    }
+
+    const isActive = this.activePromptStore.isActive(
+      node.type,
+      prompt.meta.id,
+      this.getWorkspaceRoot(node.type),
+    );
+    item.contextValue = source.readOnly
+      ? "prompt.readonly"
+      : `prompt.${prompt.meta.type}`;
+    item.iconPath = isActive
+      ? new vscode.ThemeIcon(
+          "pass-filled",
+          new vscode.ThemeColor("charts.green"),
+        )
+      : new vscode.ThemeIcon("note");
+    item.description = [
+      isActive ? "active" : undefined,
+      prompt.meta.category,
+      formatTags(prompt.meta.tags),
+      prompt.meta.description,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**${prompt.meta.name}**${isActive ? " _(active)_" : ""}`,
+        "",
+        `\`${prompt.meta.id}\` v${prompt.meta.version} by ${prompt.meta.author} · ${source.label}`,
+        ...(prompt.meta.description ? ["", prompt.meta.description] : []),
+        ...(prompt.meta.category || prompt.meta.tags?.length
+          ? [
+              "",
+              [prompt.meta.category, formatTags(prompt.meta.tags)]
+                .filter(Boolean)
+                .join(" · "),
+            ]
+          : []),
+      ].join("\n"),
+    );
+    item.command = {
+      command: "oh-my-prompt.tree.edit",
+      title: "Edit prompt",
+      arguments: [node],
+    };
+    return item;
+  }
+
+  async handleDrag(
+    nodes: readonly PromptTreeNode[],
+    dataTransfer: vscode.DataTransfer,
+  ) {
+    const prompts = nodes.filter(
+      (node) => node.kind === "prompt" && node.loaded.prompt,
+    );
+    if (prompts.length > 0) {
+      dataTransfer.set(DRAG_MIME_TYPE, new vscode.DataTransferItem(prompts));
+    }
+  }
+
+  /**
+   * Dropping prompts onto the other scope changes their type
+   */
+  async handleDrop(
+    target: PromptTreeNode | undefined,
+    dataTransfer: vscode.DataTransfer,
+  ) {
+    const nodes = dataTransfer.get(DRAG_MIME_TYPE)?.value as
+      PromptTreeNode[] | undefined;
+    if (!target || !nodes) {
+      return;
+    }
+    for (const node of nodes) {
+      if (node.kind === "prompt" && node.type !== target.type) {
+        await this.changeType(node, target.type);
+      }
+    }
+  }
+
+  async activate(node: PromptTreeNode) {
+    if (node.kind !== "prompt" || !node.loaded.prompt) {
+      return;
+    }
+    await this.statusBarItems.activatePrompt(
+      node.loaded.prompt,
+      this.getWorkspaceRoot(node.type),
+    );
+  }
+
+  async edit(node: PromptTreeNode) {
+    if (node.kind === "prompt") {
+      await openPromptEditor(node.loaded.path);
+    }
+  }
+
+  async editToml(node: PromptTreeNode) {
+    if (node.kind === "prompt") {
+      const doc = await vscode.workspace.openTextDocument(node.loaded.path);
+      await vscode.window.showTextDocument(doc);
+    }
+  }
+
+  /**
+   * Create a prompt in the scope of the node, asking for it from the title bar
+   */
+  async create(node?: PromptTreeNode) {
+    const type =
+      node?.type ??
+      (
+        await vscode.window.showQuickPick(
+          [
+            { label: "Global", type: "global" as const },
+            { label: "Project", type: "project" as const },
+          ],
+          { placeHolder: "Scope of the new prompt" },
+        )
+      )?.type;
+    if (!type) {
+      return;
+    }
+    try {
+      const prompt = await this.promptManager.createPrompt(type);
+      await openPromptEditor(await this.promptManager.getPromptPath(prompt));
+    } catch (error) {
+      this.logger.error("Failed to create prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to create prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  async duplicate(node: PromptTreeNode) {
+    if (node.kind !== "prompt") {
+      return;
+    }
+    try {
+      await openPromptEditor(
+        await this.promptManager.duplicatePrompt(node.loaded),
+      );
+    } catch (error) {
+      this.logger.error("Failed to duplicate prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to duplicate prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  async rename(node: PromptTreeNode) {
+    if (node.kind !== "prompt" || !node.loaded.prompt) {
+      return;
+    }
+    const name = await vscode.window.showInputBox({
+      prompt: "New name of the prompt",
+      value: node.loaded.prompt.meta.name,
+      validateInput: (value) =>
+        value.trim() ? undefined : "The name cannot be empty",
+    });
+    if (!name || name.trim() === node.loaded.prompt.meta.name) {
+      return;
+    }
+    try {
+      await this.promptManager.renamePrompt(node.loaded, name.trim());
+      this.refresh();
+    } catch (error) {
+      this.logger.error("Failed to rename prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to rename prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  async delete(node: PromptTreeNode) {
+    if (node.kind !== "prompt") {
+      return;
+    }
+    try {
+      const entry = node.loaded.prompt
+        ? await this.promptManager.deletePrompt(node.loaded.prompt)
+        : await this.promptManager.deletePromptFile(node.loaded.path);
+      this.refresh();
+      this.statusBarItems.offerUndoDelete(entry);
+    } catch (error) {
+      this.logger.error("Failed to delete prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to delete prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  async changeType(node: PromptTreeNode, type: PromptType) {
+    if (node.kind !== "prompt") {
+      return;
+    }
+    try {
+      await this.promptManager.changePromptType(node.loaded, type);
+      this.refresh();
+    } catch (error) {
+      this.logger.error(`Failed to move prompt to ${type}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to move prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  async convert(node: PromptTreeNode, format: PromptFormat) {
+    if (node.kind === "prompt") {
+      await this.convertFile(node.loaded, format);
+    }
+  }
+
+  /**
+   * Convert the prompt file of the active editor, or a picked prompt, to the
+   * other storage format
+   */
+  async convertPromptFormat() {
+    try {
+      const loaded = [
+        ...(await this.promptManager.loadPrompts("global")),
+        ...(await this.promptManager.loadPrompts(
+          "project",
+          this.folderTracker.getActiveRoot(),
+        )),
+      ].filter(({ prompt, source }) => prompt && !source.readOnly);
+      const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+      const selected =
+        loaded.find((item) => item.path === activePath) ??
+        (
+          await vscode.window.showQuickPick(
+            loaded.map((item) => ({
+              label: item.prompt!.meta.name,
+              description: `${capitalize(item.prompt!.meta.type)} · ${path.basename(item.path)}`,
+              loaded: item,
+            })),
+            {
+              placeHolder: "Select a prompt to convert",
+              matchOnDescription: true,
+            },
+          )
+        )?.loaded;
+      if (!selected) {
+        return;
+      }
+
+      const filePath = await this.convertFile(
+        selected,
+        getPromptFormat(selected.path) === "markdown" ? "toml" : "markdown",
+      );
+      if (filePath && selected.path === activePath) {
+        await vscode.window.showTextDocument(
+          await vscode.workspace.openTextDocument(filePath),
+        );
+      }
+    } catch (error) {
+      this.logger.error("Failed to convert prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to convert prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  private async convertFile(
+    loaded: LoadedPrompt,
+    format: PromptFormat,
+  ): Promise<string | undefined> {
+    try {
+      const filePath = await this.promptManager.convertPromptFormat(
+        loaded,
+        format,
+      );
+      this.refresh();
+      vscode.window.showInformationMessage(
+        `Converted ${path.basename(loaded.path)} to ${path.basename(filePath)}`,
+      );
+      return filePath;
+    } catch (error) {
+      this.logger.error("Failed to convert prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to convert prompt: ${formatError(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  dispose() {
+    clearTimeout(this.refreshTimeout);
+    this.watchers.forEach((d) => d.dispose());
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -6,16 +6,36 @@
  * LICENSE file in the root directory of this source tree.
  */
 import { formatError } from "@oh-my-commit/shared";
-import * as fs from "fs";
-import capitalize  from "lodash/capitalize";
+import capitalize from "lodash/capitalize";
 import * as path from "path";
 import { Service } from "typedi";
 import * as vscode from "vscode";
+import { ActivePromptStore } from "../services/activePromptStore";
 import { DocumentWatcher } from "../services/documentWatcher";
 import { EnvironmentDetector } from "../services/environmentDetector";
+import { PromptHistory } from "../services/promptHistory";
 import { PromptManager } from "../services/promptManager";
+import { TemplateVariableStore } from "../services/templateVariableStore";
+import { WorkspaceFolderTracker } from "../services/workspaceFolderTracker";
+import { PromptSnapshot } from "../types/history";
+import { LibraryRoot, LoadedPrompt } from "../types/library";
 import { Prompt, PromptType } from "../types/prompt";
+import { ResolvedRulesTarget, RulesSyncResult } from "../types/target";
+import { TrashEntry } from "../types/trash";
+import { getConfig } from "../utils/config";
+import { isComposedPrompt } from "../utils/promptComposition";
+import { getPromptFileId } from "../utils/promptFormat";
+import {
+  fuzzyMatch,
+  parseSearchQuery,
+  searchPrompt,
+  summarizeContent,
+} from "../utils/promptSearch";
+import { formatTags } from "../utils/promptTags";
 import { VscodeLogger } from "../vscode-logger";
+import { openPromptEditor } from "./promptEditorProvider";
+import { PromptPreview } from "./promptPreview";
+import { openSyncPreview } from "./syncPreview";
 
 const PRIORITY = 100;
 
@@ -30,6 +50,10 @@ export class StatusBarItems {
     private readonly environmentDetector: EnvironmentDetector,
     private readonly logger: VscodeLogger,
     private readonly documentWatcher: DocumentWatcher,
+    private readonly activePromptStore: ActivePromptStore,
+    private readonly templateVariableStore: TemplateVariableStore,
+    private readonly folderTracker: WorkspaceFolderTracker,
+    private readonly promptHistory: PromptHistory,
   ) {
     this.initializeStatusBarItems();
   }
@@ -56,86 +80,119 @@ export class StatusBarItems {
     // 监听规则文件变更
     this.disposables.push(
       this.documentWatcher.onDidChangeRules(
-        async ({ type: changedType, content }) => {
+        async ({ type: changedType, content, workspaceRoot }) => {
           this.logger.info(`Received rules change event:`, {
             itemType: type,
             changedType,
             hasContent: !!content,
           });
 
-          if (type === changedType) {
-            try {
-              // 更新 tooltip
-              const markdown = new vscode.MarkdownString(
-                [content || "No content", "", "_Click to manage prompts_"].join(
-                  "\n",
-                ),
-              );
-              markdown.isTrusted = true;
-              markdown.supportHtml = true;
-              item.tooltip = markdown;
-
-              // 确保状态栏可见
-              item.show();
-
-              this.logger.info(`Updated status bar item for ${type}`);
-            } catch (error) {
-              this.logger.error(
-                `Failed to update status bar item for ${type}:`,
-                error,
-              );
-            }
+          // Other folders' rules don't affect what the item shows
+          if (
+            type === changedType &&
+            (!workspaceRoot ||
+              workspaceRoot === this.folderTracker.getActiveRoot())
+          ) {
+            this.renderStatusBarItem(item, type, content);
           }
         },
       ),
     );
 
-    // 初始化 tooltip
-    const tooltip = await this.updateTooltip(type);
-    item.tooltip = tooltip;
+    // 监听当前激活的 prompt 变更
+    this.disposables.push(
+      this.activePromptStore.onDidChange(async (changedType) => {
+        if (type === changedType) {
+          this.renderStatusBarItem(item, type, await this.readRules(type));
+        }
+      }),
+    );
+
+    // 切换工作区文件夹时刷新项目状态
+    if (type === "project") {
+      this.disposables.push(
+        this.folderTracker.onDidChangeActiveFolder(async () => {
+          this.renderStatusBarItem(item, type, await this.readRules(type));
+        }),
+      );
+    }
+
+    // 初始化状态
+    this.renderStatusBarItem(item, type, await this.readRules(type));
     item.show();
 
     return item;
   }
 
   /**
-   * Update tooltip with IDE prompt content
+   * Read the current rules content of the primary target
    */
-  private async updateTooltip(
-    type: PromptType,
-  ): Promise<vscode.MarkdownString> {
+  private async readRules(type: PromptType): Promise<string | undefined> {
     try {
       const workspaceRoot =
-        type === "project"
-          ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-          : undefined;
+        type === "project" ? this.folderTracker.getActiveRoot() : undefined;
 
-      const rulesPath = await this.environmentDetector.getRulesPath(
-        type,
-        workspaceRoot,
-      );
+      const { target, rulesPath } =
+        await this.environmentDetector.getPrimaryTarget(type, workspaceRoot);
+      return await target.read(rulesPath);
+    } catch (error) {
+      this.logger.error(`Failed to read ${type} rules:`, error);
+      return undefined;
+    }
+  }
 
-      let content: string;
-      try {
-        content = await fs.promises.readFile(rulesPath, "utf-8");
-      } catch (error) {
-        this.logger.error(`Failed to read rules file: ${rulesPath}`, error);
-        content = "No content";
+  /**
+   * Show the active prompt's name and whether the rules drifted from it
+   */
+  private renderStatusBarItem(
+    item: vscode.StatusBarItem,
+    type: PromptType,
+    content: string | undefined,
+  ) {
+    try {
+      const Ctype = this.getScopeLabel(type);
+      const active = this.activePromptStore.get(type);
+      const drifted =
+        content !== undefined &&
+        this.activePromptStore.isDrifted(type, content);
+
+      const stacked = active?.blocks?.length ?? 0;
+      item.text = active
+        ? `${Ctype}: ${active.name}${stacked > 1 ? ` +${stacked - 1}` : ""}${drifted ? " $(warning)" : ""}`
+        : Ctype;
+      item.backgroundColor = drifted
+        ? new vscode.ThemeColor("statusBarItem.warningBackground")
+        : undefined;
+
+      // 更新 tooltip
+      const tooltipLines: string[] = [];
+      if (active) {
+        tooltipLines.push(
+          `**Active:** ${(active.blocks ?? [active]).map((block) => block.name).join(", ")} (${new Date(active.activatedAt).toLocaleString()})`,
+        );
+        if (drifted) {
+          tooltipLines.push("", "$(warning) _Modified since activation_");
+        }
+        tooltipLines.push("", "---", "");
       }
+      tooltipLines.push(
+        content === undefined
+          ? "Failed to load prompt content."
+          : content || "No content",
+        "",
+        "_Click to manage prompts_",
+      );
 
-      const tooltipLines = [content, "", "_Click to manage prompts_"];
-      const markdown = new vscode.MarkdownString(tooltipLines.join("\n"));
+      const markdown = new vscode.MarkdownString(tooltipLines.join("\n"), true);
       markdown.isTrusted = true;
       markdown.supportHtml = true;
-      return markdown;
+      item.tooltip = markdown;
+
+      // 确保状态栏可见
+      item.show();
+      this.logger.info(`Updated status bar item for ${type}`);
     } catch (error) {
-      this.logger.error("Failed to update tooltip:", error);
-      const markdown = new vscode.MarkdownString(
-        "Failed to load prompt content. Click to manage prompts.",
-      );
-      markdown.isTrusted = true;
-      markdown.supportHtml = true;
-      return markdown;
+      this.logger.error(`Failed to update status bar item for ${type}:`, error);
     }
   }
 
@@ -156,63 +213,154 @@ export class StatusBarItems {
    */
   async showPromptQuickPick(type: PromptType) {
     try {
-      const promptResults = await this.promptManager.loadPrompts(type);
+      const workspaceRoot =
+        type === "project" ? await this.folderTracker.resolveRoot() : undefined;
+      const promptResults = await this.promptManager.loadPrompts(
+        type,
+        workspaceRoot,
+      );
+      const managed =
+        this.promptManager.getSyncMode(workspaceRoot) === "managed";
+      // Only label where prompts come from when there is a choice
+      const showSource =
+        this.promptManager.getLibraryRoots(workspaceRoot).length > 1;
+      const deleteButtons = (source: LibraryRoot) =>
+        source.readOnly
+          ? []
+          : [
+              {
+                iconPath: new vscode.ThemeIcon("trash"),
+                tooltip: "Delete prompt",
+              },
+            ];
 
       // Define a custom type for prompt items
       type PromptQuickPickItem = vscode.QuickPickItem & {
         prompt?: Prompt | null;
         path?: string;
         error?: string;
+        loaded?: LoadedPrompt;
       };
 
-      const items: PromptQuickPickItem[] = promptResults.map(
-        ({ prompt, path, error }) => {
-          if (error) {
-            return {
-              label: `$(error) ${path.split("/").pop()}`,
-              description: "Error loading prompt",
-              detail: `Error: ${error}`,
-              buttons: [
-                {
-                  iconPath: new vscode.ThemeIcon("edit"),
-                  tooltip: "Edit TOML file",
-                },
-                {
-                  iconPath: new vscode.ThemeIcon("trash"),
-                  tooltip: "Delete prompt",
-                },
-              ],
-              prompt: null,
-              path,
-              error,
-              decorations: {
-                tooltip: error,
-                colors: {
-                  foreground: new vscode.ThemeColor("errorForeground"),
-                  background: new vscode.ThemeColor("errorBackground"),
-                },
+      const hasWorkspaceLibrary =
+        this.promptManager.getWorkspaceLibrary(workspaceRoot) !== undefined;
+      const libraryButtons = (source: LibraryRoot) => {
+        if (type !== "project") {
+          return [];
+        }
+        if (source.workspace) {
+          return [
+            {
+              iconPath: new vscode.ThemeIcon("person"),
+              tooltip: "Copy to personal library",
+            },
+          ];
+        }
+        return hasWorkspaceLibrary && !source.readOnly
+          ? [
+              {
+                iconPath: new vscode.ThemeIcon("repo"),
+                tooltip: "Move to workspace library",
               },
-            };
-          }
+            ]
+          : [];
+      };
+
+      // Most recently activated first, then by name
+      const lastActivated = ({ prompt }: LoadedPrompt) =>
+        prompt
+          ? (this.activePromptStore.getLastActivated(type, prompt.meta.id) ?? 0)
+          : -1;
+      const sortLabel = ({ prompt, path: filePath }: LoadedPrompt) =>
+        prompt?.meta.name ?? path.basename(filePath);
+      promptResults.sort(
+        (a, b) =>
+          lastActivated(b) - lastActivated(a) ||
+          sortLabel(a).localeCompare(sortLabel(b)),
+      );
+
+      let items: PromptQuickPickItem[] = promptResults.map((loaded) => {
+        const { prompt, path, error, source } = loaded;
+        const sourceLabel = showSource
+          ? `${source.readOnly ? "$(lock)" : "$(library)"} ${source.label}`
+          : undefined;
+        if (error) {
           return {
-            label: prompt!.meta.name,
-            description: prompt!.meta.description,
-            detail: prompt?.content, // `Version: ${prompt!.meta.version} | Author: ${prompt!.meta.author} | Date: ${prompt!.meta.date}`,
+            label: `$(error) ${path.split("/").pop()}`,
+            description: [sourceLabel, "Error loading prompt"]
+              .filter(Boolean)
+              .join(" "),
+            detail: `Error: ${error}`,
             buttons: [
               {
                 iconPath: new vscode.ThemeIcon("edit"),
-                tooltip: "Edit TOML file",
-              },
-              {
-                iconPath: new vscode.ThemeIcon("trash"),
-                tooltip: "Delete prompt",
+                tooltip: "Edit prompt file",
               },
+              ...deleteButtons(source),
             ],
-            prompt,
+            prompt: null,
             path,
+            error,
+            decorations: {
+              tooltip: error,
+              colors: {
+                foreground: new vscode.ThemeColor("errorForeground"),
+                background: new vscode.ThemeColor("errorBackground"),
+              },
+            },
           };
-        },
-      );
+        }
+        const isActive = this.activePromptStore.isActive(
+          type,
+          prompt!.meta.id,
+          workspaceRoot,
+        );
+        return {
+          label: isActive ? `$(check) ${prompt!.meta.name}` : prompt!.meta.name,
+          description:
+            [
+              isActive ? "(active)" : undefined,
+              sourceLabel,
+              prompt!.meta.category && `[${prompt!.meta.category}]`,
+              formatTags(prompt!.meta.tags),
+              prompt!.meta.description,
+            ]
+              .filter(Boolean)
+              .join(" ") || undefined,
+          detail: summarizeContent(prompt!.content), // `Version: ${prompt!.meta.version} | Author: ${prompt!.meta.author} | Date: ${prompt!.meta.date}`,
+          buttons: [
+            ...(isComposedPrompt(prompt!)
+              ? [
+                  {
+                    iconPath: new vscode.ThemeIcon("open-preview"),
+                    tooltip: "Show resolved prompt",
+                  },
+                ]
+              : []),
+            ...(managed
+              ? [
+                  {
+                    iconPath: new vscode.ThemeIcon("layers"),
+                    tooltip: "Stack into rules file",
+                  },
+                ]
+              : []),
+            ...libraryButtons(source),
+            {
+              iconPath: new vscode.ThemeIcon("history"),
+              tooltip: "Show history",
+            },
+            {
+              iconPath: new vscode.ThemeIcon("edit"),
+              tooltip: "Edit prompt",
+            },
+            ...deleteButtons(source),
+          ],
+          prompt,
+          path,
+          loaded,
+        };
+      });
 
       const defaultItems: PromptQuickPickItem[] = [
         {
@@ -233,15 +381,107 @@ export class StatusBarItems {
           alwaysShow: true,
           kind: vscode.QuickPickItemKind.Default,
         },
-        { kind: vscode.QuickPickItemKind.Separator, label: "Prompts" },
       ];
+      const trash = await this.promptManager.listTrash(type);
+      if (trash.length > 0) {
+        defaultItems.push({
+          label: "$(trash) Trash",
+          description: `Restore or purge ${trash.length} deleted ${type} prompts`,
+          alwaysShow: true,
+          kind: vscode.QuickPickItemKind.Default,
+        });
+      }
+      const deleted = await this.promptHistory.listDeleted(
+        type,
+        new Set(
+          promptResults.map(
+            ({ prompt, path: filePath }) =>
+              prompt?.meta.id ?? getPromptFileId(filePath),
+          ),
+        ),
+      );
+      if (deleted.length > 0) {
+        defaultItems.push({
+          label: "$(history) Restore Deleted",
+          description: `Restore one of ${deleted.length} deleted ${type} prompts`,
+          alwaysShow: true,
+          kind: vscode.QuickPickItemKind.Default,
+        });
+      }
+      if (type === "project" && this.folderTracker.isMultiRoot()) {
+        defaultItems.push({
+          label: "$(folder) Switch Folder",
+          description: "Choose the workspace folder project prompts refer to",
+          alwaysShow: true,
+          kind: vscode.QuickPickItemKind.Default,
+        });
+      }
+      if (type === "project") {
+        defaultItems.push({
+          label: "$(settings-gear) Sync Targets",
+          description:
+            "Choose which rules files project prompts are written to",
+          alwaysShow: true,
+          kind: vscode.QuickPickItemKind.Default,
+        });
+      }
+      defaultItems.push({
+        kind: vscode.QuickPickItemKind.Separator,
+        label: "Prompts",
+      });
 
       const quickPick = vscode.window.createQuickPick<PromptQuickPickItem>();
       quickPick.items = [...defaultItems, ...items];
-      quickPick.title = `Select ${type} Prompt`;
-      quickPick.placeholder = "Choose a prompt or create a new one";
+      quickPick.title = `Select ${this.getScopeLabel(type, workspaceRoot)} Prompt`;
+      quickPick.placeholder =
+        "Search prompts, filter with #tag, or create a new one";
       quickPick.show();
 
+      // Search the content too, showing where it matched instead of the summary
+      quickPick.onDidChangeValue((value) => {
+        if (!value.trim()) {
+          quickPick.items = [...defaultItems, ...items];
+          return;
+        }
+        const matches = items.flatMap((item) => {
+          if (!item.prompt) {
+            // Files that failed to load have no tags, only a name
+            const { tags, terms } = parseSearchQuery(value);
+            const match =
+              tags.length === 0 &&
+              fuzzyMatch(terms.join(" "), path.basename(item.path!));
+            return match ? [{ item, score: match.score }] : [];
+          }
+          const result = searchPrompt(item.prompt, value);
+          return result
+            ? [
+                {
+                  item: { ...item, detail: result.snippet ?? item.detail },
+                  score: result.score,
+                },
+              ]
+            : [];
+        });
+        quickPick.items = [
+          ...defaultItems,
+          ...matches
+            .sort((a, b) => b.score - a.score)
+            .map(({ item }) => ({ ...item, alwaysShow: true })),
+        ];
+      });
+
+      const preview = getConfig().get<boolean>("previewInQuickPick", true)
+        ? new PromptPreview()
+        : undefined;
+      quickPick.onDidChangeActive(([item]) => {
+        if (preview && item?.prompt) {
+          preview.show(item.prompt).catch((error) => {
+            this.logger.error("Failed to preview prompt:", error);
+          });
+        }
+      });
+      quickPick.onDidHide(() => preview?.dispose());
+
       // Handle button clicks
       quickPick.onDidTriggerItemButton(async (event) => {
         try {
@@ -252,25 +492,71 @@ export class StatusBarItems {
             return;
           }
 
-          if (button.tooltip === "Edit TOML file") {
-            const filePath = item.path || this.getPromptTomlPath(item.prompt!);
+          if (button.tooltip === "Stack into rules file" && item.prompt) {
+            quickPick.hide();
+            if (!(await this.askMissingVariables(item.prompt, workspaceRoot))) {
+              return;
+            }
+            const results = await this.promptManager.stackPrompt(
+              type,
+              item.prompt,
+              workspaceRoot,
+            );
+            this.showSyncReport(item.prompt, results);
+          } else if (button.tooltip === "Show resolved prompt" && item.prompt) {
+            quickPick.hide();
+            await this.showResolvedPrompt(item.prompt);
+          } else if (
+            button.tooltip === "Move to workspace library" &&
+            item.loaded
+          ) {
+            quickPick.hide();
+            await this.promptManager.moveToWorkspaceLibrary(
+              item.loaded,
+              workspaceRoot,
+            );
+            vscode.window.showInformationMessage(
+              `Moved "${item.loaded.prompt?.meta.name}" to the workspace library. Commit it to share it with your team.`,
+            );
+          } else if (
+            button.tooltip === "Copy to personal library" &&
+            item.loaded
+          ) {
+            quickPick.hide();
+            await this.promptManager.copyToPersonalLibrary(item.loaded);
+            vscode.window.showInformationMessage(
+              `Copied "${item.loaded.prompt?.meta.name}" to your personal library, where it takes precedence over the workspace copy`,
+            );
+          } else if (button.tooltip === "Show history" && item.prompt) {
+            quickPick.hide();
+            await this.showPromptHistory(
+              type,
+              item.prompt.meta.id,
+              item.prompt.meta.name,
+              item.path,
+            );
+          } else if (button.tooltip === "Edit prompt") {
+            quickPick.hide();
+            await openPromptEditor(
+              item.path ||
+                (await this.promptManager.getPromptPath(item.prompt!)),
+            );
+          } else if (button.tooltip === "Edit prompt file") {
+            const filePath =
+              item.path ||
+              (await this.promptManager.getPromptPath(item.prompt!));
             const doc = await vscode.workspace.openTextDocument(filePath);
             await vscode.window.showTextDocument(doc);
           } else if (button.tooltip === "Delete prompt") {
-            const answer = await vscode.window.showWarningMessage(
-              `Are you sure you want to delete this prompt?`,
-              { modal: true },
-              "Confirm",
+            const entry = item.prompt
+              ? await this.promptManager.deletePrompt(item.prompt)
+              : await this.promptManager.deletePromptFile(item.path!);
+            // Keep default items and filter out the deleted prompt
+            items = items.filter((i) => i.path !== item.path);
+            quickPick.items = quickPick.items.filter(
+              (i) => i.path !== item.path,
             );
-            if (answer === "Confirm") {
-              if (item.prompt) {
-                await this.promptManager.deletePrompt(item.prompt);
-              } else if (item.path) {
-                await this.promptManager.deletePromptFile(item.path);
-              }
-              // Keep default items and filter out the deleted prompt
-              quickPick.items = quickPick.items.filter((i) => i !== item);
-            }
+            this.offerUndoDelete(entry);
           }
         } catch (error) {
           this.logger.error("Failed to handle button click:", error);
@@ -288,99 +574,70 @@ export class StatusBarItems {
         try {
           if (selected.label === "$(plus) Create New") {
             const prompt = await this.promptManager.createPrompt(type);
-            const filePath = this.getPromptTomlPath(prompt);
-            const doc = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(doc);
             quickPick.hide();
+            await openPromptEditor(
+              await this.promptManager.getPromptPath(prompt),
+            );
           } else if (selected.label === "$(cloud-download) Import from IDE") {
-            const prompt =
-              await this.promptManager.importFromIdeRulesUnsaved(type);
-            if (prompt) {
-              // Save the imported prompt directly
+            quickPick.hide();
+            const source = await this.pickImportSource(type, workspaceRoot);
+            if (!source) {
+              return;
+            }
+            const prompts = await this.promptManager.importFromIdeRulesUnsaved(
+              type,
+              source,
+            );
+            // Save the imported prompts directly
+            for (const prompt of prompts) {
               await this.promptManager.savePrompt(prompt);
-              const filePath = this.getPromptTomlPath(prompt);
+            }
+            if (prompts.length > 0) {
+              const filePath = await this.promptManager.getPromptPath(
+                prompts[0],
+              );
               const doc = await vscode.workspace.openTextDocument(filePath);
               await vscode.window.showTextDocument(doc);
-              quickPick.hide();
             }
+            if (prompts.length === 0) {
+              vscode.window.showInformationMessage(
+                `No new ${type} rules to import from ${source.target.label}`,
+              );
+            } else if (prompts.length > 1) {
+              vscode.window.showInformationMessage(
+                `Imported ${prompts.length} ${type} prompts from ${source.target.label}`,
+              );
+            }
+          } else if (selected.label === "$(trash) Trash") {
+            quickPick.hide();
+            await this.showTrash(type);
+          } else if (selected.label === "$(history) Restore Deleted") {
+            quickPick.hide();
+            await this.showDeletedPrompts(type, deleted);
+          } else if (selected.label === "$(folder) Switch Folder") {
+            quickPick.hide();
+            if (await this.folderTracker.pickRoot()) {
+              await this.showPromptQuickPick(type);
+            }
+          } else if (selected.label === "$(settings-gear) Sync Targets") {
+            quickPick.hide();
+            await this.configureSyncTargets(workspaceRoot);
           } else if (selected.label === "$(edit) Edit Current") {
-            const workspaceRoot =
-              type === "project"
-                ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-                : undefined;
             const rulesPath = await this.environmentDetector.getRulesPath(
               type,
               workspaceRoot,
             );
+            const { target } = await this.environmentDetector.getPrimaryTarget(
+              type,
+              workspaceRoot,
+            );
             this.logger.info(`Opening ${type} rules file in IDE: ${rulesPath}`);
-            const doc = await vscode.workspace.openTextDocument(rulesPath);
-            await vscode.window.showTextDocument(doc);
+            await target.edit(rulesPath);
             quickPick.hide();
           } else if (selected.prompt) {
-            const ide = await this.environmentDetector.detect();
-            this.logger.info({ ide, type, selected });
-
-            if (ide === "cursor") {
-              if (type === "global") {
-                await this.promptManager.copyToClipboardForCursor(
-                  selected.prompt,
-                );
-              } else {
-                // 同步到 IDE
-                try {
-                  const workspaceRoot =
-                    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-                  if (workspaceRoot) {
-                    await this.promptManager.syncProjectPrompt(
-                      selected.prompt,
-                      workspaceRoot,
-                    );
-                    vscode.window.showInformationMessage(
-                      `Project prompt "${selected.prompt.meta.name}" has been activated`,
-                    );
-                  }
-                } catch (error) {
-                  this.logger.error(
-                    "Failed to sync project prompt to IDE:",
-                    error,
-                  );
-                  vscode.window.showErrorMessage(
-                    `Failed to sync project prompt: ${error}`,
-                  );
-                }
-              }
-            } else {
-              // 其他 IDE 的处理逻辑
-              try {
-                if (type === "global") {
-                  await this.promptManager.syncGlobalPrompt(selected.prompt);
-                  vscode.window.showInformationMessage(
-                    `Global prompt "${selected.prompt.meta.name}" has been activated`,
-                  );
-                } else {
-                  const workspaceRoot =
-                    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-                  if (workspaceRoot) {
-                    await this.promptManager.syncProjectPrompt(
-                      selected.prompt,
-                      workspaceRoot,
-                    );
-                    vscode.window.showInformationMessage(
-                      `Project prompt "${selected.prompt.meta.name}" has been activated`,
-                    );
-                  }
-                }
-              } catch (error) {
-                this.logger.error(
-                  `Failed to sync ${type} prompt to IDE:`,
-                  error,
-                );
-                vscode.window.showErrorMessage(
-                  `Failed to sync ${type} prompt: ${error}`,
-                );
-              }
-            }
+            this.logger.info({ type, selected });
             quickPick.hide();
+            await this.activatePrompt(selected.prompt, workspaceRoot);
           }
         } catch (error) {
           this.logger.error(
@@ -401,14 +658,500 @@ export class StatusBarItems {
   }
 
   /**
-   * Get the absolute path to a prompt's TOML file
+   * Write a prompt to the rules of its scope, after asking for missing
+   * variables and confirming overwrites
+   */
+  async activatePrompt(prompt: Prompt, workspaceRoot?: string) {
+    const { type } = prompt.meta;
+    try {
+      if (
+        !(await this.askMissingVariables(prompt, workspaceRoot)) ||
+        !(await this.confirmOverwrite(prompt, workspaceRoot))
+      ) {
+        return;
+      }
+      if (type === "global") {
+        const results = await this.promptManager.syncGlobalPrompt(prompt);
+        this.showSyncReport(prompt, results);
+      } else {
+        if (workspaceRoot) {
+          const results = await this.promptManager.syncProjectPrompt(
+            prompt,
+            workspaceRoot,
+          );
+          this.showSyncReport(prompt, results);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to sync ${type} prompt to IDE:`, error);
+      vscode.window.showErrorMessage(`Failed to sync ${type} prompt: ${error}`);
+    }
+  }
+
+  /**
+   * Tell the user a prompt went to the trash, offering to take it back
    */
-  private getPromptTomlPath(prompt: Prompt): string {
-    return path.join(
-      this.promptManager.getPromptDir(),
-      prompt.meta.type,
-      `${prompt.meta.id}.toml`,
+  offerUndoDelete(entry: TrashEntry) {
+    vscode.window
+      .showInformationMessage(`Moved "${entry.name}" to the trash`, "Undo")
+      .then(async (answer) => {
+        if (answer !== "Undo") {
+          return;
+        }
+        try {
+          await this.promptManager.restoreFromTrash(entry);
+          vscode.window.showInformationMessage(`Restored "${entry.name}"`);
+        } catch (error) {
+          this.logger.error("Failed to undo delete:", error);
+          vscode.window.showErrorMessage(
+            `Failed to restore prompt: ${formatError(error)}`,
+          );
+        }
+      });
+  }
+
+  /**
+   * List the deleted prompts of a scope to restore or purge them
+   */
+  private async showTrash(type: PromptType) {
+    const toItems = (entries: TrashEntry[]) =>
+      entries.map((entry) => ({
+        label: entry.name,
+        description: `Deleted ${new Date(entry.deletedAt).toLocaleString()}`,
+        detail: entry.originalPath,
+        buttons: [
+          {
+            iconPath: new vscode.ThemeIcon("discard"),
+            tooltip: "Restore",
+          },
+          {
+            iconPath: new vscode.ThemeIcon("close"),
+            tooltip: "Delete permanently",
+          },
+        ],
+        entry,
+      }));
+
+    const quickPick =
+      vscode.window.createQuickPick<ReturnType<typeof toItems>[number]>();
+    quickPick.items = toItems(await this.promptManager.listTrash(type));
+    quickPick.title = `${capitalize(type)} Prompt Trash`;
+    quickPick.placeholder = "Select a prompt to restore";
+    quickPick.show();
+
+    const restore = async (entry: TrashEntry) => {
+      const filePath = await this.promptManager.restoreFromTrash(entry);
+      const doc = await vscode.workspace.openTextDocument(filePath);
+      await vscode.window.showTextDocument(doc);
+    };
+
+    quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+      try {
+        if (button.tooltip === "Restore") {
+          quickPick.hide();
+          await restore(item.entry);
+        } else if (button.tooltip === "Delete permanently") {
+          const answer = await vscode.window.showWarningMessage(
+            `Permanently delete "${item.entry.name}"?`,
+            { modal: true },
+            "Delete",
+          );
+          if (answer === "Delete") {
+            await this.promptManager.purgeFromTrash(item.entry);
+            quickPick.items = quickPick.items.filter((i) => i !== item);
+          }
+        }
+      } catch (error) {
+        this.logger.error("Failed to handle trash entry:", error);
+        vscode.window.showErrorMessage(
+          `Failed to handle trash entry: ${formatError(error)}`,
+        );
+      }
+    });
+
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      if (!selected) {
+        return;
+      }
+      quickPick.hide();
+      try {
+        await restore(selected.entry);
+      } catch (error) {
+        this.logger.error("Failed to restore prompt from trash:", error);
+        vscode.window.showErrorMessage(
+          `Failed to restore prompt: ${formatError(error)}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * List a prompt's snapshots to compare with the current file or restore
+   * @param currentPath The prompt's file, unless it was deleted
+   */
+  private async showPromptHistory(
+    type: PromptType,
+    promptId: string,
+    name: string,
+    currentPath?: string,
+  ) {
+    const snapshots = await this.promptHistory.list(type, promptId);
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage(`"${name}" has no history yet`);
+      return;
+    }
+
+    const items = await Promise.all(
+      snapshots.map(async (snapshot) => {
+        const prompt = await this.promptHistory.readPrompt(snapshot);
+        return {
+          label: snapshot.createdAt.toLocaleString(),
+          description: [
+            capitalize(snapshot.reason),
+            prompt ? `v${prompt.meta.version}` : "invalid prompt",
+          ].join(" · "),
+          buttons: currentPath
+            ? [
+                {
+                  iconPath: new vscode.ThemeIcon("diff"),
+                  tooltip: "Compare with current",
+                },
+              ]
+            : [],
+          snapshot,
+        };
+      }),
     );
+
+    const quickPick = vscode.window.createQuickPick<(typeof items)[number]>();
+    quickPick.items = items;
+    quickPick.title = `History of "${name}"`;
+    quickPick.placeholder = "Select a version to restore";
+    quickPick.show();
+
+    quickPick.onDidTriggerItemButton(async ({ item }) => {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        vscode.Uri.file(item.snapshot.path),
+        vscode.Uri.file(currentPath!),
+        `${name}: ${item.label} ↔ Current`,
+        { preview: true },
+      );
+    });
+
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      if (!selected) {
+        return;
+      }
+      quickPick.hide();
+      await this.restoreSnapshot(name, selected.snapshot);
+    });
+  }
+
+  /**
+   * List prompts that only remain in the history
+   */
+  private async showDeletedPrompts(
+    type: PromptType,
+    deleted: PromptSnapshot[],
+  ) {
+    const items = await Promise.all(
+      deleted.map(async (snapshot) => {
+        const prompt = await this.promptHistory.readPrompt(snapshot);
+        return {
+          label: prompt?.meta.name ?? snapshot.promptId,
+          description: `Deleted ${snapshot.createdAt.toLocaleString()}`,
+          detail: prompt?.meta.description || undefined,
+          snapshot,
+        };
+      }),
+    );
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Restore Deleted ${capitalize(type)} Prompt`,
+    });
+    if (picked) {
+      await this.showPromptHistory(
+        type,
+        picked.snapshot.promptId,
+        picked.label,
+      );
+    }
+  }
+
+  private async restoreSnapshot(name: string, snapshot: PromptSnapshot) {
+    try {
+      const answer = await vscode.window.showWarningMessage(
+        `Restore "${name}" to the version from ${snapshot.createdAt.toLocaleString()}?`,
+        { modal: true, detail: "The current version stays in the history." },
+        "Restore",
+      );
+      if (answer !== "Restore") {
+        return;
+      }
+
+      const filePath = await this.promptManager.restoreSnapshot(snapshot);
+      const doc = await vscode.workspace.openTextDocument(filePath);
+      await vscode.window.showTextDocument(doc);
+    } catch (error) {
+      this.logger.error("Failed to restore prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to restore prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Preview what activating a prompt replaces in each rules target holding
+   * content that is not in the library, and back that content up
+   * @returns false if the user cancelled
+   */
+  private async confirmOverwrite(
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<boolean> {
+    const previews = await this.promptManager.getOverwritePreviews(
+      prompt,
+      workspaceRoot,
+    );
+
+    if (getConfig(workspaceRoot).get<boolean>("previewBeforeSync", true)) {
+      for (const preview of previews) {
+        const choice = await openSyncPreview({
+          promptName: prompt.meta.name,
+          targetLabel: preview.target.label,
+          current: preview.current,
+          next: preview.next,
+        });
+        if (!choice) {
+          return false;
+        }
+        if (choice === "import") {
+          const imported = await this.promptManager.importFromIdeRulesUnsaved(
+            prompt.meta.type,
+            preview,
+          );
+          for (const importedPrompt of imported) {
+            await this.promptManager.savePrompt(importedPrompt);
+          }
+        }
+      }
+    }
+
+    for (const preview of previews) {
+      await this.promptManager.backupRules(preview, preview.current);
+    }
+    return true;
+  }
+
+  /**
+   * Ask for the placeholders of a prompt that have no value yet and remember
+   * the answers for this workspace folder
+   * @returns false if the user cancelled
+   */
+  private async askMissingVariables(
+    prompt: Prompt,
+    workspaceRoot?: string,
+  ): Promise<boolean> {
+    const missing = await this.promptManager.getMissingVariables(
+      prompt,
+      workspaceRoot,
+    );
+
+    const values: Record<string, string> = {};
+    for (const name of missing) {
+      const value = await vscode.window.showInputBox({
+        title: `Activate "${prompt.meta.name}"`,
+        prompt: `Value for {{${name}}}`,
+        ignoreFocusOut: true,
+      });
+      if (value === undefined) {
+        return false;
+      }
+      values[name] = value;
+    }
+
+    if (missing.length > 0) {
+      await this.templateVariableStore.remember(values, workspaceRoot);
+    }
+    return true;
+  }
+
+  /**
+   * Choose which rules target to import from when several apply
+   */
+  private async pickImportSource(
+    type: PromptType,
+    workspaceRoot?: string,
+  ): Promise<ResolvedRulesTarget | undefined> {
+    const targets = await this.environmentDetector.getTargets(
+      type,
+      workspaceRoot,
+    );
+    if (targets.length <= 1) {
+      return targets[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      targets.map((resolved) => ({
+        label: resolved.target.label,
+        description: resolved.rulesPath,
+        resolved,
+      })),
+      { title: `Import ${type} rules from` },
+    );
+    return picked?.resolved;
+  }
+
+  /**
+   * Report the outcome of syncing a prompt to each rules target
+   */
+  private showSyncReport(prompt: Prompt, results: RulesSyncResult[]) {
+    const Ctype = capitalize(prompt.meta.type);
+    const failed = results.filter((result) => result.error !== undefined);
+    const synced = results.filter((result) => result.error === undefined);
+
+    if (failed.length === 0) {
+      vscode.window.showInformationMessage(
+        `${Ctype} prompt "${prompt.meta.name}" has been activated in ${synced
+          .map(({ target }) => target.label)
+          .join(", ")}`,
+      );
+      return;
+    }
+
+    const detail = results
+      .map(({ target, rulesPath, error }) =>
+        error === undefined
+          ? `✓ ${target.label}: ${rulesPath}`
+          : `✗ ${target.label}: ${formatError(error)}`,
+      )
+      .join("\n");
+    vscode.window.showWarningMessage(
+      `${Ctype} prompt "${prompt.meta.name}" was synced to ${synced.length} of ${results.length} targets`,
+      { modal: true, detail },
+    );
+  }
+
+  /**
+   * Let the user choose which targets project prompts are synced to
+   */
+  async configureSyncTargets(workspaceRoot?: string) {
+    workspaceRoot ??= await this.folderTracker.resolveRoot();
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage(
+        "Open a workspace to configure sync targets",
+      );
+      return;
+    }
+
+    try {
+      const enabled =
+        await this.environmentDetector.getEnabledTargetIds(workspaceRoot);
+      const targets = await this.environmentDetector.getSupportedTargets(
+        "project",
+        workspaceRoot,
+      );
+      const items = targets.map(({ target, rulesPath }) => ({
+        label: target.label,
+        description: path.relative(workspaceRoot!, rulesPath),
+        picked: enabled.includes(target.id),
+        id: target.id,
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: `${this.getScopeLabel("project", workspaceRoot)} Sync Targets`,
+        placeHolder: "Select the rules files project prompts are written to",
+      });
+      if (!selected) {
+        return;
+      }
+
+      await this.environmentDetector.setEnabledTargetIds(
+        workspaceRoot!,
+        selected.map((item) => item.id),
+      );
+      vscode.window.showInformationMessage(
+        selected.length > 0
+          ? `Project prompts will be synced to ${selected.map((item) => item.label).join(", ")}`
+          : "Project prompts will be synced to the detected targets",
+      );
+    } catch (error) {
+      this.logger.error("Failed to configure sync targets:", error);
+      vscode.window.showErrorMessage(
+        `Failed to configure sync targets: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Open a prompt with its `extends` and `include` expanded, as it would be
+   * written to the rules
+   */
+  async showResolvedPrompt(prompt?: Prompt) {
+    try {
+      const selected = prompt ?? (await this.pickComposedPrompt());
+      if (!selected) {
+        return;
+      }
+
+      const resolved = await this.promptManager.resolvePrompt(
+        selected,
+        selected.meta.type === "project"
+          ? this.folderTracker.getActiveRoot()
+          : undefined,
+      );
+      const doc = await vscode.workspace.openTextDocument({
+        language: "markdown",
+        content: resolved.content,
+      });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    } catch (error) {
+      this.logger.error("Failed to show resolved prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to resolve prompt: ${formatError(error)}`,
+      );
+    }
+  }
+
+  private async pickComposedPrompt(): Promise<Prompt | undefined> {
+    const types: PromptType[] = ["global", "project"];
+    const prompts = (
+      await Promise.all(
+        types.map((type) => this.promptManager.loadPrompts(type)),
+      )
+    )
+      .flat()
+      .flatMap(({ prompt }) =>
+        prompt && isComposedPrompt(prompt) ? [prompt] : [],
+      );
+    if (prompts.length === 0) {
+      vscode.window.showInformationMessage("No prompt uses extends or include");
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      prompts.map((prompt) => ({
+        label: prompt.meta.name,
+        description: capitalize(prompt.meta.type),
+        prompt,
+      })),
+      { title: "Show Resolved Prompt" },
+    );
+    return picked?.prompt;
+  }
+
+  /**
+   * Name a scope, adding the folder project prompts refer to when several
+   * folders are open
+   */
+  private getScopeLabel(type: PromptType, workspaceRoot?: string): string {
+    const root = workspaceRoot ?? this.folderTracker.getActiveRoot();
+    return type === "project" && root && this.folderTracker.isMultiRoot()
+      ? `${capitalize(type)} (${this.folderTracker.getFolderName(root)})`
+      : capitalize(type);
   }
 
   dispose() {
@@ -0,0 +1,86 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as vscode from "vscode";
+
+const PREVIEW_SCHEME = "oh-my-prompt-preview";
+
+export interface SyncPreviewInput {
+  /** Name of the prompt being activated */
+  promptName: string;
+  /** Label of the rules target */
+  targetLabel: string;
+  current: string;
+  next: string;
+}
+
+/**
+ * - `apply`: overwrite the rules
+ * - `import`: save the current rules as a prompt first, then overwrite them
+ */
+export type SyncPreviewChoice = "apply" | "import";
+
+/**
+ * Show the rules content next to what activating a prompt would write, and
+ * let the user decide whether to go ahead
+ * @returns Promise<SyncPreviewChoice | undefined> undefined if cancelled
+ */
+export const openSyncPreview = async ({
+  promptName,
+  targetLabel,
+  current,
+  next,
+}: SyncPreviewInput): Promise<SyncPreviewChoice | undefined> => {
+  const previewDir = `/${Date.now()}`;
+  const currentUri = vscode.Uri.from({
+    scheme: PREVIEW_SCHEME,
+    path: `${previewDir}/current.md`,
+  });
+  const nextUri = vscode.Uri.from({
+    scheme: PREVIEW_SCHEME,
+    path: `${previewDir}/activated.md`,
+  });
+  const contents = new Map([
+    [currentUri.toString(), current],
+    [nextUri.toString(), next],
+  ]);
+  const provider = vscode.workspace.registerTextDocumentContentProvider(
+    PREVIEW_SCHEME,
+    { provideTextDocumentContent: (uri) => contents.get(uri.toString()) },
+  );
+
+  try {
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      currentUri,
+      nextUri,
+      `${targetLabel}: Current ↔ ${promptName}`,
+      { preview: true },
+    );
+
+    const answer = await vscode.window.showWarningMessage(
+      `Activating "${promptName}" replaces content of ${targetLabel} that is not in your library.`,
+      "Apply",
+      "Import then Apply",
+      "Cancel",
+    );
+    if (answer === "Apply") {
+      return "apply";
+    }
+    return answer === "Import then Apply" ? "import" : undefined;
+  } finally {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(
+        (tab) =>
+          tab.input instanceof vscode.TabInputTextDiff &&
+          tab.input.modified.toString() === nextUri.toString(),
+      );
+    await vscode.window.tabGroups.close(tabs).then(undefined, () => undefined);
+    provider.dispose();
+  }
+};
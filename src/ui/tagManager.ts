@@ -0,0 +1,148 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { formatError } from "@oh-my-commit/shared";
+import capitalize from "lodash/capitalize";
+import { Service } from "typedi";
+import * as vscode from "vscode";
+import { PromptManager } from "../services/promptManager";
+import { WorkspaceFolderTracker } from "../services/workspaceFolderTracker";
+import { LoadedPrompt } from "../types/library";
+import { PromptMeta } from "../types/prompt";
+import { countTags, formatTags, normalizeTag } from "../utils/promptTags";
+import { VscodeLogger } from "../vscode-logger";
+
+/**
+ * Lists the tags of the library and tags or untags prompts in bulk
+ */
+@Service()
+export class TagManager {
+  constructor(
+    private readonly promptManager: PromptManager,
+    private readonly folderTracker: WorkspaceFolderTracker,
+    private readonly logger: VscodeLogger,
+  ) {}
+
+  /**
+   * Pick a tag, with how many prompts use it, then check the prompts that
+   * should have it
+   */
+  async manageTags() {
+    try {
+      const loaded = [
+        ...(await this.promptManager.loadPrompts("global")),
+        ...(await this.promptManager.loadPrompts(
+          "project",
+          this.folderTracker.getActiveRoot(),
+        )),
+      ];
+      const tags = countTags(
+        loaded.flatMap(({ prompt }) => (prompt ? [prompt] : [])),
+      );
+
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "$(add) New Tag...", alwaysShow: true },
+          ...(tags.length > 0
+            ? [{ label: "Tags", kind: vscode.QuickPickItemKind.Separator }]
+            : []),
+          ...tags.map(([tag, count]) => ({
+            label: `#${tag}`,
+            description: `${count} prompt${count === 1 ? "" : "s"}`,
+            tag,
+          })),
+        ] as Array<vscode.QuickPickItem & { tag?: string }>,
+        {
+          title: "Prompt Tags",
+          placeHolder: "Pick a tag to choose which prompts have it",
+        },
+      );
+      if (!picked) {
+        return;
+      }
+
+      const tag =
+        picked.tag ??
+        normalizeTag(
+          (await vscode.window.showInputBox({
+            prompt: "Name of the new tag",
+            placeHolder: "e.g. react",
+            validateInput: (value) =>
+              normalizeTag(value) ? undefined : "The tag cannot be empty",
+          })) ?? "",
+        );
+      if (tag) {
+        await this.retag(tag, loaded);
+      }
+    } catch (error) {
+      this.logger.error("Failed to manage tags:", error);
+      vscode.window.showErrorMessage(
+        `Failed to manage tags: ${formatError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Add the tag to the checked prompts and remove it from the others
+   */
+  private async retag(tag: string, loaded: LoadedPrompt[]) {
+    const hasTag = ({ prompt }: LoadedPrompt) =>
+      (prompt?.meta.tags ?? []).some((own) => normalizeTag(own) === tag);
+    const writable = loaded.filter(
+      ({ prompt, source }) => prompt && !source.readOnly,
+    );
+
+    const selected = await vscode.window.showQuickPick(
+      writable.map((item) => ({
+        label: item.prompt!.meta.name,
+        description: [
+          capitalize(item.prompt!.meta.type),
+          formatTags(item.prompt!.meta.tags),
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        picked: hasTag(item),
+        loaded: item,
+      })),
+      {
+        title: `Prompts tagged #${tag}`,
+        placeHolder: "Check the prompts that should have the tag",
+        canPickMany: true,
+        matchOnDescription: true,
+      },
+    );
+    if (!selected) {
+      return;
+    }
+
+    const checked = new Set(selected.map((item) => item.loaded.path));
+    let changed = 0;
+    for (const item of writable) {
+      const prompt = item.prompt!;
+      if (hasTag(item) === checked.has(item.path)) {
+        continue;
+      }
+      const own = prompt.meta.tags ?? [];
+      const meta: PromptMeta = {
+        ...prompt.meta,
+        tags: checked.has(item.path)
+          ? [...own, tag]
+          : own.filter((existing) => normalizeTag(existing) !== tag),
+      };
+      if (meta.tags!.length === 0) {
+        delete meta.tags;
+      }
+      await this.promptManager.savePrompt({ ...prompt, meta }, item.path);
+      changed++;
+    }
+    vscode.window.showInformationMessage(
+      changed > 0
+        ? `Updated the tags of ${changed} prompt${changed === 1 ? "" : "s"}`
+        : "No tags changed",
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as vscode from "vscode";
+
+export interface ThreeWayMergeInput {
+  /** Content both sides started from */
+  base: string;
+  /** Content of the library prompt */
+  library: string;
+  /** Content of the rules file */
+  rules: string;
+}
+
+const writeText = async (uri: vscode.Uri, content: string) => {
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+};
+
+/**
+ * Let the user merge library and rules changes against their common base
+ * @param storageUri Directory for the temporary merge files
+ * @returns Promise<string | undefined> merged content, or undefined if cancelled
+ */
+export const openThreeWayMerge = async (
+  storageUri: vscode.Uri,
+  { base, library, rules }: ThreeWayMergeInput,
+): Promise<string | undefined> => {
+  const mergeDir = vscode.Uri.joinPath(storageUri, "merge", `${Date.now()}`);
+  await vscode.workspace.fs.createDirectory(mergeDir);
+
+  const baseUri = vscode.Uri.joinPath(mergeDir, "base.md");
+  const libraryUri = vscode.Uri.joinPath(mergeDir, "library.md");
+  const rulesUri = vscode.Uri.joinPath(mergeDir, "rules.md");
+  const outputUri = vscode.Uri.joinPath(mergeDir, "merged.md");
+  await Promise.all([
+    writeText(baseUri, base),
+    writeText(libraryUri, library),
+    writeText(rulesUri, rules),
+    writeText(outputUri, rules),
+  ]);
+
+  try {
+    try {
+      await vscode.commands.executeCommand("_open.mergeEditor", {
+        base: baseUri,
+        input1: { uri: libraryUri, title: "Library prompt" },
+        input2: { uri: rulesUri, title: "Rules file" },
+        output: outputUri,
+      });
+    } catch {
+      // The merge editor is not available in every IDE, fall back to a diff
+      // of both sides and let the user edit the result by hand
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        libraryUri,
+        outputUri,
+        "Library prompt ↔ Rules file (edit the right side)",
+      );
+    }
+
+    const answer = await vscode.window.showInformationMessage(
+      "Resolve the changes and save the result, then apply it to the prompt.",
+      "Apply Merge",
+      "Cancel",
+    );
+    if (answer !== "Apply Merge") {
+      return undefined;
+    }
+
+    const openDoc = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === outputUri.toString(),
+    );
+    if (openDoc?.isDirty) {
+      await openDoc.save();
+    }
+    const merged = await vscode.workspace.fs.readFile(outputUri);
+    return Buffer.from(merged).toString("utf-8");
+  } finally {
+    await vscode.workspace.fs
+      .delete(mergeDir, { recursive: true })
+      .then(undefined, () => undefined);
+  }
+};
@@ -0,0 +1,19 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as vscode from "vscode";
+
+export const CONFIG_SECTION = "ohMyPrompt";
+
+/**
+ * Get the extension configuration, optionally scoped to a workspace folder
+ */
+export const getConfig = (workspaceRoot?: string) =>
+  vscode.workspace.getConfiguration(
+    CONFIG_SECTION,
+    workspaceRoot ? vscode.Uri.file(workspaceRoot) : undefined,
+  );
@@ -0,0 +1,315 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Reads and writes the YAML subset prompt frontmatter needs: scalars, flow
+ * (`[a, b]`) and block (`- a`) lists, `|` and `>` blocks, and maps nested one
+ * level deep such as `scope`
+ */
+
+type FrontmatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+export type Frontmatter = Record<string, FrontmatterValue>;
+
+const DELIMITER = /^---[ \t]*\r?$/;
+const KEY_LINE =
+  /^([A-Za-z_][\w.-]*|"(?:[^"\\]|\\.)*"|'(?:[^']|'')*')[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+const PLAIN_KEY = /^[A-Za-z_][\w-]*$/;
+const BLOCK_SCALAR = /^([|>])(-?)$/;
+const PLAIN_SCALAR = /^[A-Za-z_/.][\w .,/@+()-]*$/;
+const RESERVED_SCALAR = /^(true|false|yes|no|on|off|null|~)$/i;
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+class FrontmatterError extends Error {
+  constructor(line: number, message: string) {
+    super(`Frontmatter line ${line + 1}: ${message}`);
+  }
+}
+
+/**
+ * Split a document into its `---` delimited frontmatter and body
+ * @returns undefined if the document doesn't start with frontmatter
+ */
+export const splitFrontmatter = (
+  text: string,
+): { frontmatter: string; body: string } | undefined => {
+  const lines = text.replace(/^\uFEFF/, "").split("\n");
+  if (!DELIMITER.test(lines[0])) {
+    return undefined;
+  }
+  const end = lines.findIndex((line, i) => i > 0 && DELIMITER.test(line));
+  if (end === -1) {
+    return undefined;
+  }
+  return {
+    frontmatter: lines.slice(1, end).join("\n"),
+    // The blank line after the frontmatter separates it from the body
+    body: lines
+      .slice(end + 1)
+      .join("\n")
+      .replace(/^\r?\n/, ""),
+  };
+};
+
+/**
+ * Parse a quoted, plain or flow list value
+ */
+const parseScalar = (raw: string, line: number): FrontmatterValue => {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    const quoted = value.match(/^("(?:[^"\\]|\\.)*")\s*(#.*)?$/);
+    try {
+      return JSON.parse(quoted?.[1] ?? value) as string;
+    } catch {
+      throw new FrontmatterError(line, `Invalid double-quoted string ${value}`);
+    }
+  }
+  if (value.startsWith("'")) {
+    const quoted = value.match(/^'((?:[^']|'')*)'\s*(#.*)?$/);
+    if (!quoted) {
+      throw new FrontmatterError(line, `Invalid single-quoted string ${value}`);
+    }
+    return quoted[1].replace(/''/g, "'");
+  }
+  if (value.startsWith("[")) {
+    const close = value.lastIndexOf("]");
+    const rest = value.slice(close + 1).trim();
+    if (close === -1 || (rest && !rest.startsWith("#"))) {
+      throw new FrontmatterError(line, `Unterminated list ${value}`);
+    }
+    const items = splitFlowList(value.slice(1, close), line);
+    return items.map((item) => parseScalar(item, line));
+  }
+  if (value.startsWith("{")) {
+    throw new FrontmatterError(line, "Inline maps are not supported");
+  }
+
+  // Plain scalars end at a comment
+  const plain = value.replace(/\s+#.*$/, "");
+  if (plain === "" || /^(null|~)$/.test(plain)) {
+    return null;
+  }
+  if (/^(true|false)$/.test(plain)) {
+    return plain === "true";
+  }
+  if (NUMBER.test(plain)) {
+    return Number(plain);
+  }
+  return plain;
+};
+
+/**
+ * Read a plain or quoted key, e.g. `"scripts.test"` of a variable
+ */
+const parseKey = (raw: string, line: number): string => {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      throw new FrontmatterError(line, `Invalid double-quoted key ${raw}`);
+    }
+  }
+  return raw.startsWith("'") ? raw.slice(1, -1).replace(/''/g, "'") : raw;
+};
+
+/**
+ * Split the inside of `[...]` at commas outside quotes
+ */
+const splitFlowList = (inner: string, line: number): string[] => {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | undefined;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        current += char + inner[++i];
+        continue;
+      }
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+      continue;
+    } else if (char === "[" || char === "{") {
+      throw new FrontmatterError(line, "Nested collections are not supported");
+    }
+    current += char;
+  }
+  if (quote) {
+    throw new FrontmatterError(line, "Unterminated string in list");
+  }
+  items.push(current);
+  return items.map((item) => item.trim()).filter(Boolean);
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const isSkipped = (line: string) => !line.trim() || line.trim().startsWith("#");
+
+/**
+ * Parse frontmatter text into an object
+ * @throws on syntax outside the supported subset, with the line number
+ */
+export const parseFrontmatter = (text: string): Frontmatter => {
+  const lines = text.split("\n").map((line) => line.replace(/\r$/, ""));
+
+  // Parse the entries indented by `indent` starting at `start`
+  const parseMap = (
+    start: number,
+    indent: number,
+  ): { map: Frontmatter; next: number } => {
+    const map: Frontmatter = {};
+    let i = start;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isSkipped(line)) {
+        i++;
+        continue;
+      }
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent) {
+        break;
+      }
+      if (lineIndent > indent) {
+        throw new FrontmatterError(i, "Unexpected indentation");
+      }
+      if (/^\s*\t/.test(line)) {
+        throw new FrontmatterError(i, "Tabs are not allowed for indentation");
+      }
+
+      const match = line.trim().match(KEY_LINE);
+      if (!match) {
+        throw new FrontmatterError(i, `Expected "key: value", got ${line}`);
+      }
+      const key = parseKey(match[1], i);
+      const raw = match[2];
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        throw new FrontmatterError(i, `Duplicate key "${key}"`);
+      }
+      i++;
+
+      const block = raw?.match(BLOCK_SCALAR);
+      if (raw !== undefined && !raw.startsWith("#") && !block) {
+        map[key] = parseScalar(raw, i - 1);
+        continue;
+      }
+
+      // Find the indentation of the nested lines, if any
+      let child = i;
+      while (child < lines.length && isSkipped(lines[child])) {
+        child++;
+      }
+      const childIndent =
+        child < lines.length ? indentOf(lines[child]) : indent;
+
+      if (block) {
+        const blockLines: string[] = [];
+        for (; i < lines.length; i++) {
+          if (lines[i].trim() && indentOf(lines[i]) <= indent) {
+            break;
+          }
+          blockLines.push(lines[i].slice(childIndent));
+        }
+        const [, style, chomp] = block;
+        const literal = blockLines.join("\n").replace(/\n*$/, "");
+        // Folded blocks join lines with spaces, blank lines become newlines
+        const joined =
+          style === "|"
+            ? literal
+            : literal.replace(/\n(\n*)(?=[^\n])/g, (_, extra) => extra || " ");
+        map[key] = chomp === "-" ? joined : `${joined}\n`;
+      } else if (
+        child < lines.length &&
+        lines[child].trim().startsWith("- ") &&
+        childIndent >= indent
+      ) {
+        const items: FrontmatterValue[] = [];
+        i = child;
+        while (i < lines.length) {
+          if (isSkipped(lines[i])) {
+            i++;
+            continue;
+          }
+          if (
+            indentOf(lines[i]) !== childIndent ||
+            !lines[i].trim().startsWith("- ")
+          ) {
+            break;
+          }
+          items.push(parseScalar(lines[i].trim().slice(2), i));
+          i++;
+        }
+        map[key] = items;
+      } else if (child < lines.length && childIndent > indent) {
+        const nested = parseMap(child, childIndent);
+        map[key] = nested.map;
+        i = nested.next;
+      } else {
+        map[key] = null;
+      }
+    }
+    return { map, next: i };
+  };
+
+  return parseMap(0, 0).map;
+};
+
+/**
+ * Format a value, quoting strings that would otherwise read differently
+ * @param inList whether the value is an item of a flow list, where commas
+ * end plain strings
+ */
+const formatScalar = (value: FrontmatterValue, inList = false): string => {
+  if (typeof value === "string") {
+    return PLAIN_SCALAR.test(value) &&
+      !RESERVED_SCALAR.test(value) &&
+      !NUMBER.test(value) &&
+      !value.endsWith(" ") &&
+      !(inList && value.includes(","))
+      ? value
+      : JSON.stringify(value);
+  }
+  return value === null ? "null" : String(value);
+};
+
+/**
+ * Serialize an object as frontmatter, quoting strings only where needed.
+ * Undefined values are left out
+ */
+export const stringifyFrontmatter = (data: Record<string, unknown>): string =>
+  Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => {
+      const key = PLAIN_KEY.test(name) ? name : JSON.stringify(name);
+      if (Array.isArray(value)) {
+        return `${key}: [${(value as FrontmatterValue[])
+          .map((item) => formatScalar(item, true))
+          .join(", ")}]`;
+      }
+      if (typeof value === "object" && value !== null) {
+        const nested = stringifyFrontmatter(value as Record<string, unknown>);
+        return `${key}:\n${nested
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => `  ${line}`)
+          .join("\n")}`;
+      }
+      return `${key}: ${formatScalar(value as FrontmatterValue)}`;
+    })
+    .map((line) => `${line}\n`)
+    .join("");
@@ -0,0 +1,14 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { createHash } from "crypto";
+
+/**
+ * Hash prompt or rules content to detect changes
+ */
+export const hashContent = (content: string): string =>
+  createHash("sha256").update(content, "utf-8").digest("hex");
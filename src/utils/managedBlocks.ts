@@ -0,0 +1,84 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * A region of a rules file owned by Oh My Prompt, holding one library prompt
+ */
+export interface ManagedBlock {
+  id: string;
+  content: string;
+}
+
+const beginMarker = (id: string) => `<!-- oh-my-prompt:begin id=${id} -->`;
+const endMarker = (id: string) => `<!-- oh-my-prompt:end id=${id} -->`;
+
+// A block plus the line break that follows it, so removing it leaves no gap
+const blockPattern = () =>
+  /<!-- oh-my-prompt:begin id=(\S+) -->\r?\n([\s\S]*?)\r?\n<!-- oh-my-prompt:end id=\1 -->(\r?\n)?/g;
+
+const markerLinePattern = () =>
+  /^<!-- oh-my-prompt:(?:begin|end) id=\S+ -->\r?\n?/gm;
+
+/**
+ * Parse the managed blocks of a rules file, in file order
+ */
+export const parseManagedBlocks = (text: string): ManagedBlock[] =>
+  [...text.matchAll(blockPattern())].map(([, id, content]) => ({
+    id,
+    content,
+  }));
+
+export const hasManagedBlocks = (text: string): boolean =>
+  blockPattern().test(text);
+
+/**
+ * The hand-written part of a rules file, outside any managed block
+ */
+export const getUnmanagedContent = (text: string): string =>
+  text.replace(blockPattern(), "").trim();
+
+/**
+ * Remove the marker comments, keeping the content of every block
+ */
+export const stripManagedMarkers = (text: string): string =>
+  text.replace(markerLinePattern(), "");
+
+const renderBlock = ({ id, content }: ManagedBlock): string =>
+  [beginMarker(id), content, endMarker(id)].join("\n");
+
+/**
+ * Replace the managed blocks of a rules file, leaving everything else as is.
+ * New blocks take the place of the first existing one, or are appended.
+ */
+export const renderManagedBlocks = (
+  existing: string,
+  blocks: ManagedBlock[],
+): string => {
+  let insertAt = -1;
+  const remainder = existing.replace(
+    blockPattern(),
+    (_match, _id, _content, _newline, offset: number) => {
+      if (insertAt < 0) {
+        insertAt = offset;
+      }
+      return "";
+    },
+  );
+
+  if (blocks.length === 0) {
+    return remainder;
+  }
+
+  const rendered = `${blocks.map(renderBlock).join("\n")}\n`;
+  if (insertAt >= 0) {
+    return remainder.slice(0, insertAt) + rendered + remainder.slice(insertAt);
+  }
+
+  const head = remainder.trimEnd();
+  return head ? `${head}\n\n${rendered}` : rendered;
+};
@@ -0,0 +1,131 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import { z } from "zod";
+import {
+  BundledPrompt,
+  BundleEntry,
+  PromptBundle,
+  PromptBundleSchema,
+} from "../types/bundle";
+import { Prompt, PromptIdSchema, PromptSchema } from "../types/prompt";
+import { hashContent } from "./hash";
+import { CURRENT_SCHEMA_VERSION, migratePromptData } from "./promptMigration";
+
+const describeError = (error: unknown): string =>
+  error instanceof z.ZodError
+    ? error.issues
+        .map(({ path, message }) => `${path.join(".")}: ${message}`)
+        .join("; ")
+    : error instanceof Error
+      ? error.message
+      : String(error);
+
+/**
+ * Bundle prompts with a manifest of their ids, versions and hashes
+ */
+export const createPromptBundle = (
+  prompts: Prompt[],
+  createdAt = new Date(),
+): PromptBundle => {
+  const bundle: PromptBundle = {
+    bundleVersion: 1,
+    createdAt: createdAt.toISOString(),
+    manifest: [],
+    files: {},
+  };
+  for (const prompt of prompts) {
+    const file = `${prompt.meta.type}/${prompt.meta.id}.toml`;
+    const toml = TOML.stringify({
+      ...prompt,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+    bundle.manifest.push({
+      id: prompt.meta.id,
+      type: prompt.meta.type,
+      name: prompt.meta.name,
+      version: prompt.meta.version,
+      hash: hashContent(toml),
+      file,
+    });
+    bundle.files[file] = toml;
+  }
+  return bundle;
+};
+
+/**
+ * Check one manifest entry against its TOML
+ */
+const readEntry = (
+  entry: BundleEntry,
+  files: Record<string, string>,
+): Prompt => {
+  const id = PromptIdSchema.safeParse(entry.id);
+  if (!id.success) {
+    throw new Error(
+      `Prompt id "${entry.id}" is not allowed: ${id.error.issues[0].message}`,
+    );
+  }
+  const toml = files[entry.file];
+  if (toml === undefined) {
+    throw new Error(`${entry.file} is missing from the bundle`);
+  }
+  if (hashContent(toml) !== entry.hash) {
+    throw new Error(`${entry.file} doesn't match its hash in the manifest`);
+  }
+  const prompt = PromptSchema.parse(migratePromptData(TOML.parse(toml)).data);
+  if (prompt.meta.id !== entry.id || prompt.meta.type !== entry.type) {
+    throw new Error(
+      `${entry.file} holds ${prompt.meta.type} prompt "${prompt.meta.id}", not the ${entry.type} prompt "${entry.id}" of the manifest`,
+    );
+  }
+  return prompt;
+};
+
+/**
+ * Parse a bundle file and validate every entry with `PromptSchema`
+ * @returns each manifest entry with its prompt, or why it is invalid
+ * @throws if the file is not a prompt bundle at all
+ */
+export const readPromptBundle = (text: string): BundledPrompt[] => {
+  let bundle: PromptBundle;
+  try {
+    bundle = PromptBundleSchema.parse(JSON.parse(text));
+  } catch (error) {
+    throw new Error(`Not a prompt bundle: ${describeError(error)}`);
+  }
+
+  const seen = new Set<string>();
+  return bundle.manifest.map((entry) => {
+    const key = `${entry.type}:${entry.id}`;
+    if (seen.has(key)) {
+      return {
+        entry,
+        error: `The bundle holds ${entry.type} prompt "${entry.id}" more than once`,
+      };
+    }
+    seen.add(key);
+    try {
+      return { entry, prompt: readEntry(entry, bundle.files) };
+    } catch (error) {
+      return { entry, error: describeError(error) };
+    }
+  });
+};
+
+/**
+ * An id for an imported prompt kept next to a prompt with the same id,
+ * e.g. `style-imported`, then `style-imported-2`
+ */
+export const getImportedId = (id: string, taken: Set<string>): string => {
+  let candidate = `${id}-imported`;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${id}-imported-${i}`;
+  }
+  return candidate;
+};
@@ -0,0 +1,93 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Prompt } from "../types/prompt";
+
+export type PromptLookup = (id: string) => Prompt | undefined;
+
+/**
+ * Whether a prompt is built from other prompts
+ */
+export const isComposedPrompt = (prompt: Prompt): boolean =>
+  prompt.extends !== undefined || (prompt.include?.length ?? 0) > 0;
+
+const getReferences = (prompt: Prompt): string[] => [
+  ...(prompt.extends ? [prompt.extends] : []),
+  ...(prompt.include ?? []),
+];
+
+/**
+ * Expand `extends` and `include` into a single prompt: the extended prompt,
+ * then the included fragments, then the prompt's own content.
+ * Throws on missing references and reference cycles.
+ */
+export const resolvePromptComposition = (
+  prompt: Prompt,
+  lookup: PromptLookup,
+  chain: string[] = [],
+): Prompt => {
+  const id = prompt.meta.id;
+  if (chain.includes(id)) {
+    throw new Error(`Circular prompt reference: ${[...chain, id].join(" → ")}`);
+  }
+
+  const resolveReference = (refId: string): Prompt => {
+    const referenced = lookup(refId);
+    if (!referenced) {
+      throw new Error(`Prompt "${id}" references missing prompt "${refId}"`);
+    }
+    return resolvePromptComposition(referenced, lookup, [...chain, id]);
+  };
+
+  const base = prompt.extends ? resolveReference(prompt.extends) : undefined;
+  const fragments = (prompt.include ?? []).map(resolveReference);
+  const content = [base, ...fragments]
+    .map((part) => part?.content)
+    .concat(prompt.content)
+    .filter((part): part is string => !!part?.trim())
+    .join("\n\n");
+
+  // Defaults of the prompt itself win over those of the prompts it uses
+  const variables = Object.assign(
+    {},
+    ...[base, ...fragments, prompt].map((part) => part?.variables),
+  );
+
+  return {
+    ...prompt,
+    content,
+    scope: prompt.scope ?? base?.scope,
+    variables: Object.keys(variables).length > 0 ? variables : undefined,
+    extends: undefined,
+    include: undefined,
+  };
+};
+
+/**
+ * Whether a prompt references another one, directly or through the prompts
+ * it references
+ */
+export const dependsOnPrompt = (
+  prompt: Prompt,
+  id: string,
+  lookup: PromptLookup,
+  visited = new Set<string>(),
+): boolean =>
+  getReferences(prompt).some((refId) => {
+    if (refId === id) {
+      return true;
+    }
+    if (visited.has(refId)) {
+      return false;
+    }
+    visited.add(refId);
+    const referenced = lookup(refId);
+    return (
+      referenced !== undefined &&
+      dependsOnPrompt(referenced, id, lookup, visited)
+    );
+  });
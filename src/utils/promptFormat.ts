@@ -0,0 +1,113 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import * as path from "path";
+import { PromptFormat, PromptSchema } from "../types/prompt";
+import {
+  parseFrontmatter,
+  splitFrontmatter,
+  stringifyFrontmatter,
+} from "./frontmatter";
+
+export const PROMPT_FILE_EXTENSIONS: Record<PromptFormat, string> = {
+  toml: ".toml",
+  markdown: ".md",
+};
+
+/**
+ * Keys stored next to the `meta` fields in Markdown frontmatter, every
+ * top-level key of the schema but the content
+ */
+const TOP_LEVEL_KEYS = Object.keys(PromptSchema.shape).filter(
+  (key) => key !== "meta" && key !== "content",
+);
+
+/**
+ * Storage format of a prompt file, undefined if it isn't one
+ */
+export const getPromptFormat = (filePath: string): PromptFormat | undefined =>
+  (Object.keys(PROMPT_FILE_EXTENSIONS) as PromptFormat[]).find((format) =>
+    filePath.endsWith(PROMPT_FILE_EXTENSIONS[format]),
+  );
+
+export const isPromptFile = (filePath: string): boolean =>
+  getPromptFormat(filePath) !== undefined;
+
+/**
+ * File name without its prompt extension, expected to match `meta.id`
+ */
+export const getPromptFileId = (filePath: string): string => {
+  const format = getPromptFormat(filePath);
+  return path.basename(
+    filePath,
+    format ? PROMPT_FILE_EXTENSIONS[format] : undefined,
+  );
+};
+
+export const getPromptFileName = (id: string, format: PromptFormat): string =>
+  `${id}${PROMPT_FILE_EXTENSIONS[format]}`;
+
+/**
+ * Parse a prompt file into unvalidated prompt data. Markdown files hold the
+ * `meta` fields in YAML frontmatter and the content as their body
+ * @throws on syntax errors
+ */
+export const parsePromptText = (
+  text: string,
+  format: PromptFormat,
+): Record<string, unknown> => {
+  if (format === "toml") {
+    return TOML.parse(text);
+  }
+
+  const parts = splitFrontmatter(text);
+  if (!parts) {
+    throw new Error("Markdown prompts must start with `---` frontmatter");
+  }
+  const meta: Record<string, unknown> = parseFrontmatter(parts.frontmatter);
+  const data: Record<string, unknown> = { content: parts.body };
+  for (const key of TOP_LEVEL_KEYS) {
+    if (key in meta) {
+      data[key] = meta[key];
+      delete meta[key];
+    }
+  }
+  return { ...data, meta };
+};
+
+/**
+ * Serialize prompt data in a storage format
+ */
+export const stringifyPrompt = (
+  data: Record<string, unknown>,
+  format: PromptFormat,
+): string => {
+  if (format === "toml") {
+    return TOML.stringify(data as TOML.JsonMap);
+  }
+
+  const { meta, content, ...rest } = data;
+  const frontmatter = stringifyFrontmatter({
+    schemaVersion: rest.schemaVersion,
+    ...(meta as Record<string, unknown>),
+    ...Object.fromEntries(
+      Object.entries(rest).filter(([key]) => key !== "schemaVersion"),
+    ),
+  });
+  return `---\n${frontmatter}---\n\n${content ?? ""}`;
+};
+
+/**
+ * Rewrite a prompt file's text in another format
+ */
+export const convertPromptText = (
+  text: string,
+  from: PromptFormat,
+  to: PromptFormat,
+): string =>
+  from === to ? text : stringifyPrompt(parsePromptText(text, from), to);
@@ -0,0 +1,195 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import { z } from "zod";
+import { Prompt, PromptSchema } from "../types/prompt";
+import { migratePromptData } from "./promptMigration";
+import { getPromptKeys, scanTomlLines } from "./promptToml";
+
+export type PromptIssueCode =
+  | "syntax"
+  | "schema"
+  | "missing-key"
+  | "unknown-key"
+  | "id-mismatch"
+  | "duplicate-id"
+  | "empty-content";
+
+export interface PromptIssue {
+  code: PromptIssueCode;
+  message: string;
+  severity: "error" | "warning";
+  /** Zero-based line */
+  line: number;
+  /** Zero-based start and end columns on that line */
+  column: number;
+  endColumn: number;
+  /** Key the issue is about, e.g. `["meta", "id"]` */
+  path?: string[];
+}
+
+export interface PromptLintOptions {
+  /** File name without `.toml`, expected to match `meta.id` */
+  fileId?: string;
+  /** Ids used by other prompt files, mapped to where they are */
+  otherIds?: Map<string, string>;
+}
+
+/** Tables whose keys are checked, the others are free-form */
+const CHECKED_TABLES: string[][] = [[], ["meta"], ["scope"]];
+
+interface KeyLocation {
+  line: number;
+  column: number;
+  endColumn: number;
+}
+
+/**
+ * Find where each table header and key is defined
+ */
+const indexKeys = (text: string): Map<string, KeyLocation> => {
+  const locations = new Map<string, KeyLocation>();
+  scanTomlLines(text).forEach(
+    ({ table, header, key, column, endColumn }, line) => {
+      if (header || key) {
+        locations.set([...table, ...(key ? [key] : [])].join("."), {
+          line,
+          column,
+          endColumn,
+        });
+      }
+    },
+  );
+  return locations;
+};
+
+/**
+ * Check the text of a prompt TOML file, reporting syntax errors, schema
+ * violations and likely mistakes with their position
+ */
+export const lintPromptToml = (
+  text: string,
+  { fileId, otherIds }: PromptLintOptions = {},
+): { prompt?: Prompt; issues: PromptIssue[] } => {
+  let data: Record<string, unknown>;
+  try {
+    data = TOML.parse(text);
+  } catch (error) {
+    const { line = 0, col = 0 } = error as { line?: number; col?: number };
+    const message = (error instanceof Error ? error.message : String(error))
+      .split("\n")[0]
+      .replace(/ at row \d+, col \d+, pos \d+:$/, "");
+    return {
+      issues: [
+        {
+          code: "syntax",
+          message,
+          severity: "error",
+          line,
+          column: col,
+          endColumn: col + 1,
+        },
+      ],
+    };
+  }
+
+  const locations = indexKeys(text);
+  const locate = (path: string[]): KeyLocation => {
+    // Fall back to the closest enclosing table that is defined
+    for (let length = path.length; length > 0; length--) {
+      const location = locations.get(path.slice(0, length).join("."));
+      if (location) {
+        return location;
+      }
+    }
+    return { line: 0, column: 0, endColumn: 0 };
+  };
+  const issues: PromptIssue[] = [];
+  const report = (
+    code: PromptIssueCode,
+    path: string[],
+    message: string,
+    severity: PromptIssue["severity"] = "error",
+  ) => issues.push({ code, message, severity, path, ...locate(path) });
+
+  const content = data.content;
+  if (typeof content === "string" && !content.trim()) {
+    report(
+      "empty-content",
+      ["content"],
+      "Prompt content is empty",
+      content ? "warning" : "error",
+    );
+  }
+
+  // Validate what loading sees, older formats are upgraded first
+  let upgraded = data;
+  try {
+    upgraded = migratePromptData(data).data;
+  } catch (error) {
+    report(
+      "schema",
+      ["schemaVersion"],
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  const result = PromptSchema.safeParse(upgraded);
+  for (const issue of result.success ? [] : result.error.issues) {
+    const path = issue.path.map(String);
+    if (
+      issue.code === z.ZodIssueCode.invalid_type &&
+      issue.received === "undefined"
+    ) {
+      report("missing-key", path, `Missing required key "${path.join(".")}"`);
+    } else if (path.join(".") !== "content" || typeof content !== "string") {
+      report("schema", path, `${path.join(".")}: ${issue.message}`);
+    }
+  }
+
+  for (const table of CHECKED_TABLES) {
+    const value = table.length ? data[table[0]] : data;
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      continue;
+    }
+    const known = getPromptKeys(table).map(({ name }) => name);
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        const path = [...table, key];
+        report(
+          "unknown-key",
+          path,
+          `Unknown key "${path.join(".")}"`,
+          "warning",
+        );
+      }
+    }
+  }
+
+  const id = (data.meta as { id?: unknown } | undefined)?.id;
+  if (typeof id === "string" && id) {
+    if (fileId !== undefined && id !== fileId) {
+      report(
+        "id-mismatch",
+        ["meta", "id"],
+        `Prompt id "${id}" doesn't match the file name "${fileId}.toml"`,
+        "warning",
+      );
+    }
+    const other = otherIds?.get(id);
+    if (other) {
+      report(
+        "duplicate-id",
+        ["meta", "id"],
+        `Prompt id "${id}" is also used by ${other}`,
+        "warning",
+      );
+    }
+  }
+
+  return { prompt: result.success ? result.data : undefined, issues };
+};
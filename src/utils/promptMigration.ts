@@ -0,0 +1,83 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Format version written to prompt files, bump it together with a new
+ * entry in `MIGRATIONS` whenever `PromptSchema` changes incompatibly
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type PromptData = Record<string, unknown>;
+
+interface PromptMigration {
+  /** Version the migration upgrades from, to the next one */
+  from: number;
+  /** What changed, shown in the migration report */
+  description: string;
+  migrate: (data: PromptData) => PromptData;
+}
+
+const MIGRATIONS: PromptMigration[] = [
+  {
+    from: 1,
+    description:
+      "Convert TOML dates and numeric versions in [meta] to strings and fix the misspelled default author",
+    migrate: (data) => {
+      const meta = { ...(data.meta as PromptData | undefined) };
+      if (meta.date instanceof Date) {
+        meta.date = meta.date.toISOString();
+      }
+      if (typeof meta.version === "number") {
+        meta.version = String(meta.version);
+      }
+      if (meta.author === "Annoymous") {
+        meta.author = "Anonymous";
+      }
+      return data.meta === undefined ? data : { ...data, meta };
+    },
+  },
+];
+
+/**
+ * Format version of parsed prompt data, files from before versioning are 1
+ */
+export const getSchemaVersion = (data: PromptData): number =>
+  typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+
+export const needsMigration = (data: PromptData): boolean =>
+  getSchemaVersion(data) < CURRENT_SCHEMA_VERSION;
+
+/**
+ * Upgrade parsed prompt data to the current format, one version at a time
+ * @returns the upgraded data and a description of each applied migration
+ * @throws if the data comes from a newer version of the extension
+ */
+export const migratePromptData = (
+  data: PromptData,
+): { data: PromptData; applied: string[] } => {
+  let version = getSchemaVersion(data);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Prompt format version ${version} is newer than ${CURRENT_SCHEMA_VERSION}, update Oh My Prompt to read it`,
+    );
+  }
+
+  const applied: string[] = [];
+  let migrated = data;
+  for (; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS.find(({ from }) => from === version);
+    if (migration) {
+      migrated = migration.migrate(migrated);
+      applied.push(migration.description);
+    }
+  }
+  return {
+    data: { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION },
+    applied,
+  };
+};
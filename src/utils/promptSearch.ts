@@ -0,0 +1,166 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Prompt } from "../types/prompt";
+import { matchesTags, normalizeTag } from "./promptTags";
+
+export type PromptSearchField =
+  "name" | "description" | "tags" | "category" | "content";
+
+export interface PromptSearchResult {
+  /** Higher is better */
+  score: number;
+  /** Fields at least one search term matched */
+  fields: PromptSearchField[];
+  /** Part of the content around the first match, if the content matched */
+  snippet?: string;
+}
+
+/** How much a match in each field counts */
+const FIELD_WEIGHTS: Record<PromptSearchField, number> = {
+  name: 3,
+  description: 2,
+  tags: 2,
+  category: 2,
+  content: 1,
+};
+
+const SNIPPET_WIDTH = 80;
+
+/**
+ * Score how well a term matches a text: a substring at the start of a word
+ * beats any substring, which beats the term's letters appearing in order
+ * @returns the score and where the match starts, undefined if no match
+ */
+export const fuzzyMatch = (
+  term: string,
+  text: string,
+): { score: number; index: number } | undefined => {
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    const wordStart = index === 0 || /\W/.test(haystack[index - 1]);
+    return { score: wordStart ? 3 : 2, index };
+  }
+
+  let position = -1;
+  let start = -1;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position === -1) {
+      return undefined;
+    }
+    if (start === -1) {
+      start = position;
+    }
+  }
+  return { score: 1, index: start };
+};
+
+/**
+ * A single line of text of about `width` characters around `index`
+ */
+export const getSnippet = (
+  text: string,
+  index: number,
+  width = SNIPPET_WIDTH,
+): string => {
+  const start = Math.max(0, index - Math.floor(width / 3));
+  const end = Math.min(text.length, start + width);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+};
+
+/**
+ * The first non-empty line of a prompt's content, shortened to `width`
+ */
+export const summarizeContent = (
+  content: string,
+  width = SNIPPET_WIDTH,
+): string => {
+  const line =
+    content
+      .split("\n")
+      .map((line) => line.replace(/^[#>*\-\s]+/, "").trim())
+      .find(Boolean) ?? "";
+  return line.length > width ? `${line.slice(0, width)}…` : line;
+};
+
+/**
+ * Split a query into `#tag` filters and the terms to search for
+ */
+export const parseSearchQuery = (
+  query: string,
+): { tags: string[]; terms: string[] } => {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  return {
+    tags: words
+      .filter((word) => word.startsWith("#"))
+      .map(normalizeTag)
+      .filter(Boolean),
+    terms: words.filter((word) => !word.startsWith("#")),
+  };
+};
+
+/**
+ * Match a prompt against every whitespace-separated term of a query, after
+ * keeping only prompts with its `#tag` filters. The name, description, tags
+ * and category match fuzzily, the content only on substrings so long
+ * prompts don't match everything
+ * @returns undefined if a term matches none of the fields
+ */
+export const searchPrompt = (
+  prompt: Prompt,
+  query: string,
+): PromptSearchResult | undefined => {
+  const { tags, terms } = parseSearchQuery(query);
+  if (!matchesTags(prompt, tags)) {
+    return undefined;
+  }
+  const texts: Record<PromptSearchField, string> = {
+    name: prompt.meta.name,
+    description: prompt.meta.description ?? "",
+    tags: (prompt.meta.tags ?? []).join(" "),
+    category: prompt.meta.category ?? "",
+    content: prompt.content,
+  };
+
+  const fields = new Set<PromptSearchField>(tags.length ? ["tags"] : []);
+  let score = 0;
+  let contentIndex: number | undefined;
+  for (const term of terms) {
+    let best: { field: PromptSearchField; score: number } | undefined;
+    for (const field of Object.keys(texts) as PromptSearchField[]) {
+      const match = fuzzyMatch(term, texts[field]);
+      if (!match || (field === "content" && match.score === 1)) {
+        continue;
+      }
+      if (field === "content" && contentIndex === undefined) {
+        contentIndex = match.index;
+      }
+      const fieldScore = match.score * FIELD_WEIGHTS[field];
+      if (!best || fieldScore > best.score) {
+        best = { field, score: fieldScore };
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+    fields.add(best.field);
+    score += best.score;
+  }
+
+  return {
+    score,
+    fields: [...fields],
+    snippet:
+      contentIndex !== undefined
+        ? getSnippet(prompt.content, contentIndex)
+        : undefined,
+  };
+};
@@ -0,0 +1,51 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import { Prompt } from "../types/prompt";
+
+/**
+ * Lowercase a tag, without the leading `#` and with dashes for spaces
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, "").trim().replace(/\s+/g, "-").toLowerCase();
+
+/**
+ * Parse tags typed as a comma-separated list, e.g. `react, #testing`
+ */
+export const parseTags = (input: string): string[] => [
+  ...new Set(input.split(",").map(normalizeTag).filter(Boolean)),
+];
+
+/**
+ * Tags as shown next to a prompt, e.g. `#react #testing`
+ */
+export const formatTags = (tags: string[] = []): string =>
+  tags.map((tag) => `#${normalizeTag(tag)}`).join(" ");
+
+/**
+ * Whether a prompt has a tag starting with each of the given ones, so
+ * filters narrow down while they are typed
+ */
+export const matchesTags = (prompt: Prompt, tags: string[]): boolean => {
+  const own = (prompt.meta.tags ?? []).map(normalizeTag);
+  return tags.every((tag) =>
+    own.some((candidate) => candidate.startsWith(tag)),
+  );
+};
+
+/**
+ * How many prompts use each tag, most used first
+ */
+export const countTags = (prompts: Prompt[]): Array<[string, number]> => {
+  const counts = new Map<string, number>();
+  for (const prompt of prompts) {
+    for (const tag of new Set((prompt.meta.tags ?? []).map(normalizeTag))) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+};
@@ -0,0 +1,164 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+import * as TOML from "@iarna/toml";
+import isPlainObject from "lodash/isPlainObject";
+import { z } from "zod";
+import { PromptSchema } from "../types/prompt";
+import { migratePromptData } from "./promptMigration";
+
+/**
+ * What a line of a TOML file defines
+ */
+export interface TomlLine {
+  /** Table the line belongs to, `[]` before the first header */
+  table: string[];
+  /** Set on `[table]` header lines */
+  header?: boolean;
+  /** Key assigned on the line */
+  key?: string;
+  /** Start and end columns of the header or assignment */
+  column: number;
+  endColumn: number;
+  /** Whether the line is inside a multi-line string */
+  inString: boolean;
+}
+
+/**
+ * Work out the table and key of each line, without parsing values, so
+ * files with errors can still be navigated
+ */
+export const scanTomlLines = (text: string): TomlLine[] => {
+  let table: string[] = [];
+  let inString = false;
+
+  return text.split("\n").map((lineText) => {
+    const delimiters = lineText.match(/"""|'''/g)?.length ?? 0;
+    const line: TomlLine = {
+      table,
+      column: 0,
+      endColumn: lineText.trimEnd().length,
+      inString,
+    };
+    if (inString) {
+      inString = delimiters % 2 === 0;
+      return line;
+    }
+
+    const header = lineText.match(/^(\s*)\[\s*([\w.-]+)\s*\]\s*(#.*)?$/);
+    if (header) {
+      table = header[2].split(".");
+      return { ...line, table, header: true, column: header[1].length };
+    }
+
+    const key = lineText.match(/^(\s*)("[^"]+"|[\w-]+)\s*=/);
+    inString = delimiters % 2 === 1;
+    return key
+      ? {
+          ...line,
+          key: key[2].replace(/^"|"$/g, ""),
+          column: key[1].length,
+        }
+      : line;
+  });
+};
+
+/**
+ * A key a prompt file may define, as described by `PromptSchema`
+ */
+export interface PromptKey {
+  name: string;
+  description?: string;
+  kind: "string" | "number" | "boolean" | "array" | "enum" | "table";
+  /** Values of enum keys */
+  options?: string[];
+  required: boolean;
+}
+
+const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny =>
+  schema instanceof z.ZodOptional || schema instanceof z.ZodDefault
+    ? unwrap(schema._def.innerType)
+    : schema;
+
+/**
+ * Keys of a table of a prompt file, `[]` for the top level. Free-form
+ * tables such as `[variables]` have none
+ */
+export const getPromptKeys = (table: string[]): PromptKey[] => {
+  let schema: z.ZodTypeAny = PromptSchema;
+  for (const name of table) {
+    const object = unwrap(schema);
+    if (!(object instanceof z.ZodObject)) {
+      return [];
+    }
+    schema = object.shape[name];
+    if (!schema) {
+      return [];
+    }
+  }
+
+  const object = unwrap(schema);
+  if (!(object instanceof z.ZodObject)) {
+    return [];
+  }
+  return Object.entries(object.shape as z.ZodRawShape).map(([name, field]) => {
+    const type = unwrap(field);
+    return {
+      name,
+      description: field.description ?? type.description,
+      kind:
+        type instanceof z.ZodEnum
+          ? "enum"
+          : type instanceof z.ZodNumber
+            ? "number"
+            : type instanceof z.ZodBoolean
+              ? "boolean"
+              : type instanceof z.ZodArray
+                ? "array"
+                : type instanceof z.ZodObject || type instanceof z.ZodRecord
+                  ? "table"
+                  : "string",
+      options: type instanceof z.ZodEnum ? type.options : undefined,
+      required: !field.isOptional(),
+    };
+  });
+};
+
+/**
+ * Add the keys of `data` the schema doesn't know back to the parsed prompt,
+ * after the known ones of the same table
+ */
+const withUnknownKeys = (
+  parsed: Record<string, unknown>,
+  data: Record<string, unknown>,
+): Record<string, unknown> => {
+  const result = { ...parsed };
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in parsed)) {
+      result[key] = value;
+    } else if (isPlainObject(parsed[key]) && isPlainObject(value)) {
+      result[key] = withUnknownKeys(
+        parsed[key] as Record<string, unknown>,
+        value as Record<string, unknown>,
+      );
+    }
+  }
+  return result;
+};
+
+/**
+ * Rewrite a prompt file in the canonical form `TOML.stringify` produces,
+ * upgrading older formats and filling in defaults. Unknown keys, which the
+ * linter warns about, are kept after the known ones
+ * @throws if the file is not a valid prompt
+ */
+export const formatPromptToml = (text: string): string => {
+  const { data } = migratePromptData(TOML.parse(text));
+  return TOML.stringify(
+    withUnknownKeys(PromptSchema.parse(data), data) as TOML.JsonMap,
+  );
+};
@@ -0,0 +1,28 @@
+/**
+ * @Copyright Copyright (c) 2024 Oh My Prompt
+ * @CreatedAt 2026-10-19
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export type TemplateValues = Record<string, string>;
+
+const placeholderPattern = () => /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Names of the `{{variable}}` placeholders in a text, in order of first use
+ */
+export const findTemplateVariables = (text: string): string[] => [
+  ...new Set([...text.matchAll(placeholderPattern())].map(([, name]) => name)),
+];
+
+/**
+ * Substitute placeholders with their values, leaving unknown ones as is
+ */
+export const renderTemplate = (text: string, values: TemplateValues): string =>
+  text.replace(placeholderPattern(), (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder,
+  );
@@ -3,6 +3,7 @@
 'use strict';
 
 const path = require('path');
+const CopyPlugin = require('copy-webpack-plugin');
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -43,6 +44,12 @@ const extensionConfig = {
       },
     ]
   },
+  plugins: [
+    // sql.js loads its WebAssembly binary from next to the bundle at runtime
+    new CopyPlugin({
+      patterns: [{ from: 'node_modules/sql.js/dist/sql-wasm.wasm', to: '.' }],
+    }),
+  ],
   devtool: 'nosources-source-map',
   infrastructureLogging: {
     level: "log", // enables logging required for problem matchers